@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent, Impact } from './types';
+import { eventIdentity, extractTicker, normalizeTicker } from './events';
+import type { FilterPreferences } from './filters';
+
+// --- ALERT RULES ---
+export interface AlertRule {
+  id: string;
+  enabled: boolean;
+  leadMinutes: number;
+  // "macro": macro events at or above `minImpact`.
+  // "watchlist": earnings of tickers in `watchlistId`, or in any watchlist if null.
+  target: 'macro' | 'watchlist';
+  minImpact?: Impact;
+  watchlistId?: string | null;
+}
+
+export interface DueAlert {
+  key: string; // Rule id + event identity; an alert fires once per key
+  rule: AlertRule;
+  event: FinancialEvent;
+}
+
+const RULES_STORAGE_KEY = 'financial-events-radar:alert-rules';
+const FIRED_STORAGE_KEY = 'financial-events-radar:alerts-fired';
+const FIRED_RETENTION_MS = 14 * 24 * 60 * 60 * 1000;
+const IMPACT_RANK: Record<Impact, number> = { Low: 1, Medium: 2, High: 3 };
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+    { id: 'default-high-impact', enabled: false, leadMinutes: 15, target: 'macro', minImpact: 'High' },
+];
+
+function readJson<T>(key: string, fallback: T): T {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch (e) {
+        console.warn(`Ignoring unreadable ${key}:`, e);
+        return fallback;
+    }
+}
+
+function writeJson(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Could not save ${key}:`, e);
+    }
+}
+
+export function loadAlertRules(): AlertRule[] {
+    const rules = readJson<AlertRule[] | null>(RULES_STORAGE_KEY, null);
+    if (!Array.isArray(rules)) return DEFAULT_ALERT_RULES.map(r => ({ ...r }));
+    return rules.filter(r => r && typeof r.id === 'string' && Number.isFinite(r.leadMinutes));
+}
+
+export function saveAlertRules(rules: AlertRule[]) {
+    writeJson(RULES_STORAGE_KEY, rules);
+}
+
+// --- FIRED-ALERT LOG ---
+// Keys of alerts already shown, with when they fired. Kept in localStorage so
+// an alert is not repeated after a data refresh or a page reload.
+export function loadFiredAlerts(now: number = Date.now()): Map<string, number> {
+    const entries = readJson<[string, number][]>(FIRED_STORAGE_KEY, []);
+    return new Map(entries.filter(([, firedAt]) => now - firedAt < FIRED_RETENTION_MS));
+}
+
+export function saveFiredAlerts(fired: Map<string, number>) {
+    writeJson(FIRED_STORAGE_KEY, [...fired]);
+}
+
+// --- MATCHING ---
+export function ruleMatches(rule: AlertRule, event: FinancialEvent, prefs: FilterPreferences): boolean {
+    if (rule.target === 'macro') {
+        if (event.type !== 'macro' || !event.impact) return false;
+        return IMPACT_RANK[event.impact] >= IMPACT_RANK[rule.minImpact ?? 'High'];
+    }
+    if (event.type !== 'corp') return false;
+    const ticker = normalizeTicker(extractTicker(event.name));
+    if (!ticker) return false;
+    const watchlists = rule.watchlistId
+        ? prefs.watchlists.filter(w => w.id === rule.watchlistId)
+        : prefs.watchlists;
+    return watchlists.some(w => w.tickers.includes(ticker));
+}
+
+/**
+ * Alerts whose lead window has opened and that have not fired yet. Events
+ * without a known time are skipped, since "N minutes before" has no meaning
+ * for them.
+ */
+export function findDueAlerts(
+    events: FinancialEvent[], rules: AlertRule[], prefs: FilterPreferences,
+    fired: Map<string, number>, now: number = Date.now(),
+): DueAlert[] {
+    const due: DueAlert[] = [];
+    for (const event of events) {
+        if (!event.hasTime) continue;
+        const start = event.datetime.getTime();
+        if (start <= now) continue;
+        for (const rule of rules) {
+            if (!rule.enabled || now < start - rule.leadMinutes * 60 * 1000) continue;
+            const key = `${rule.id}|${eventIdentity(event)}`;
+            if (fired.has(key) || !ruleMatches(rule, event, prefs)) continue;
+            due.push({ key, rule, event });
+        }
+    }
+    return due;
+}
+
+export function describeRule(rule: AlertRule, prefs: FilterPreferences): string {
+    const lead = `${rule.leadMinutes} min before`;
+    if (rule.target === 'macro') {
+        const impact = rule.minImpact ?? 'High';
+        return impact === 'High'
+            ? `${lead} High impact macro events`
+            : `${lead} ${impact} or higher impact macro events`;
+    }
+    const watchlist = prefs.watchlists.find(w => w.id === rule.watchlistId);
+    return `${lead} earnings in ${watchlist ? `"${watchlist.name}"` : 'any watchlist'}`;
+}
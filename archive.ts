@@ -0,0 +1,187 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventType, FinancialEvent, Impact } from './types';
+import { definedFields, eventIdentity, extractTicker, seriesKey } from './events';
+
+// --- EVENT ARCHIVE ---
+// Every event the dashboard fetches is kept in IndexedDB, one record per
+// event identity, so releases stay available after they leave the fetched
+// windows. Later fetches update a record field by field, keeping values a
+// newer response left out.
+export interface ArchivedEvent extends FinancialEvent {
+  identity: string;
+  series: string;      // See seriesKey(): all releases of one indicator or company
+  firstSeenAt: number; // Epoch ms
+  lastSeenAt: number;
+}
+
+export interface ArchiveQuery {
+  text?: string;      // Every word must appear in the name or description
+  type?: EventType;
+  impact?: Impact;
+  tickers?: string[]; // Any of these
+  from?: Date;
+  until?: Date;       // Exclusive
+}
+
+const DB_NAME = 'financial-events-radar';
+const DB_VERSION = 2; // 2: macro identities carry the region
+const STORE = 'events';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+}
+
+function openArchive(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+            reject(new Error('IndexedDB is not available'));
+            return;
+        }
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = (e) => {
+            if (e.oldVersion < 1) {
+                const store = request.result.createObjectStore(STORE, { keyPath: 'identity' });
+                store.createIndex('datetime', 'datetime');
+                store.createIndex('series', 'series');
+                return;
+            }
+            // Records made before an identity change are filed again under their new key.
+            const store = request.transaction?.objectStore(STORE);
+            if (!store) return;
+            const cursorRequest = store.openCursor();
+            cursorRequest.onsuccess = () => {
+                const cursor = cursorRequest.result;
+                if (!cursor) return;
+                const record: ArchivedEvent = cursor.value;
+                const identity = eventIdentity(record);
+                if (identity !== record.identity) {
+                    cursor.delete();
+                    store.put({ ...record, identity });
+                }
+                cursor.continue();
+            };
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('The archive is open in an older version of this page'));
+    });
+    // Let a failed open be retried later.
+    dbPromise.catch(() => { dbPromise = null; });
+    return dbPromise;
+}
+
+/** Adds new events to the archive and updates the ones already in it. */
+export async function archiveEvents(events: FinancialEvent[], now: number = Date.now()): Promise<void> {
+    if (events.length === 0) return;
+    const db = await openArchive();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const done = new Promise<void>((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+
+    for (const event of events) {
+        const identity = eventIdentity(event);
+        const request = store.get(identity);
+        request.onsuccess = () => {
+            const existing = request.result as ArchivedEvent | undefined;
+            // Fields the event leaves unset keep their archived values.
+            const record: ArchivedEvent = {
+                ...event,
+                ...existing,
+                ...definedFields(event),
+                identity,
+                series: seriesKey(event),
+                firstSeenAt: existing?.firstSeenAt ?? now,
+                lastSeenAt: now,
+            };
+            store.put(record);
+        };
+    }
+    return done;
+}
+
+/** All archived releases of one series, oldest first. */
+export async function loadSeries(series: string): Promise<ArchivedEvent[]> {
+    const db = await openArchive();
+    const records = await promisify(db.transaction(STORE).objectStore(STORE).index('series').getAll(series));
+    return (records as ArchivedEvent[]).sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+}
+
+function matchesQuery(record: ArchivedEvent, query: ArchiveQuery, words: string[]): boolean {
+    if (query.type && record.type !== query.type) return false;
+    if (query.impact && record.impact !== query.impact) return false;
+    if (query.tickers && query.tickers.length > 0) {
+        const ticker = extractTicker(record.name);
+        if (!ticker || !query.tickers.includes(ticker)) return false;
+    }
+    if (words.length > 0) {
+        const haystack = `${record.name} ${record.description}`.toLowerCase();
+        if (!words.every(word => haystack.includes(word))) return false;
+    }
+    return true;
+}
+
+/** Archived events matching `query`, newest first. */
+export async function searchArchive(query: ArchiveQuery): Promise<ArchivedEvent[]> {
+    const db = await openArchive();
+    const index = db.transaction(STORE).objectStore(STORE).index('datetime');
+    let range: IDBKeyRange | undefined;
+    if (query.from && query.until) {
+        range = IDBKeyRange.bound(query.from, query.until, false, true);
+    } else if (query.from) {
+        range = IDBKeyRange.lowerBound(query.from);
+    } else if (query.until) {
+        range = IDBKeyRange.upperBound(query.until, true);
+    }
+    const records = await promisify(index.getAll(range)) as ArchivedEvent[];
+    const words = (query.text ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+    return records.filter(record => matchesQuery(record, query, words)).reverse();
+}
+
+// --- EXPORT ---
+// Columns use the FinancialEvent field names, so an exported CSV can be
+// loaded back as a fixture (see providers/fixture.ts).
+const EXPORT_FIELDS: (keyof ArchivedEvent)[] = [
+    'datetime', 'hasTime', 'type', 'name', 'description', 'impact', 'country', 'currency', 'actual',
+    'forecast', 'previous', 'infoType', 'analystPrediction', 'announcementPeriod', 'source',
+    'identity', 'firstSeenAt', 'lastSeenAt',
+];
+
+function exportValue(record: ArchivedEvent, field: keyof ArchivedEvent): string {
+    const value = record[field];
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return value.toISOString();
+    if (field === 'firstSeenAt' || field === 'lastSeenAt') return new Date(value as number).toISOString();
+    return String(value);
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function archiveToCsv(records: ArchivedEvent[]): string {
+    const lines = [EXPORT_FIELDS.join(',')];
+    for (const record of records) {
+        lines.push(EXPORT_FIELDS.map(field => csvField(exportValue(record, field))).join(','));
+    }
+    return lines.join('\r\n') + '\r\n';
+}
+
+export function archiveToJson(records: ArchivedEvent[]): string {
+    const rows = records.map(record => Object.fromEntries(EXPORT_FIELDS
+        .filter(field => record[field] !== undefined)
+        .map(field => [field, field === 'hasTime' ? record.hasTime : exportValue(record, field)])));
+    return JSON.stringify(rows, null, 2);
+}
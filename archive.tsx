@@ -0,0 +1,117 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventType, Impact } from './types';
+import { archiveToCsv, archiveToJson, searchArchive, type ArchivedEvent, type ArchiveQuery } from './archive';
+import { eventRegions, parseTickerList } from './filters';
+import { browserTimeZone, loadDisplayTimeZone, shiftDateKey, zonedMidnight } from './timezones';
+import { downloadFile } from './download';
+import { eventDateKey } from './events';
+
+// --- STATE ---
+let results: ArchivedEvent[] = [];
+let searchTimer: ReturnType<typeof setTimeout> | undefined;
+// Rendering thousands of rows helps nobody; exports always include everything.
+const MAX_ROWS = 500;
+
+// --- DOM ELEMENTS ---
+const filtersForm = document.getElementById('archive-filters') as HTMLFormElement;
+const textInput = document.getElementById('archive-text') as HTMLInputElement;
+const typeSelect = document.getElementById('archive-type') as HTMLSelectElement;
+const impactSelect = document.getElementById('archive-impact') as HTMLSelectElement;
+const tickersInput = document.getElementById('archive-tickers') as HTMLInputElement;
+const fromInput = document.getElementById('archive-from') as HTMLInputElement;
+const toInput = document.getElementById('archive-to') as HTMLInputElement;
+const summary = document.getElementById('archive-summary')!;
+const resultsBody = document.getElementById('archive-results')!;
+const exportCsvBtn = document.getElementById('export-csv') as HTMLButtonElement;
+const exportJsonBtn = document.getElementById('export-json') as HTMLButtonElement;
+
+// Dates are entered and shown in the dashboard's display time zone.
+const timeZone = loadDisplayTimeZone() ?? browserTimeZone();
+
+// --- SEARCH ---
+function readQuery(): ArchiveQuery {
+    return {
+        text: textInput.value.trim() || undefined,
+        type: (typeSelect.value || undefined) as EventType | undefined,
+        impact: (impactSelect.value || undefined) as Impact | undefined,
+        tickers: parseTickerList(tickersInput.value),
+        from: fromInput.value ? zonedMidnight(fromInput.value, timeZone) : undefined,
+        until: toInput.value ? zonedMidnight(shiftDateKey(toInput.value, 1), timeZone) : undefined,
+    };
+}
+
+async function runSearch() {
+    try {
+        results = await searchArchive(readQuery());
+    } catch (error) {
+        console.error('Could not search the archive:', error);
+        results = [];
+        summary.textContent = 'The archive could not be opened in this browser.';
+        renderResults(false);
+        return;
+    }
+    renderResults(true);
+}
+
+function scheduleSearch() {
+    clearTimeout(searchTimer);
+    searchTimer = setTimeout(runSearch, 200);
+}
+
+// --- RENDERING ---
+function formatWhen(event: ArchivedEvent): string {
+    // Noon UTC keeps the date on the same day whatever the zone.
+    const date = new Date(`${eventDateKey(event, timeZone)}T12:00:00Z`)
+        .toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+    if (event.announcementPeriod) return `${date} · ${event.announcementPeriod}`;
+    if (!event.hasTime) return date;
+    return `${date} ${event.datetime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })}`;
+}
+
+function renderResults(updateSummary: boolean) {
+    resultsBody.innerHTML = '';
+    for (const event of results.slice(0, MAX_ROWS)) {
+        const row = document.createElement('tr');
+        const cells = [
+            formatWhen(event),
+            event.type === 'macro' ? 'Macro' : 'Earnings',
+            event.name,
+            event.impact ?? '',
+            eventRegions(event).join(' · '),
+            event.actual ?? '',
+            event.type === 'corp' ? event.analystPrediction ?? event.forecast ?? '' : event.forecast ?? '',
+            event.previous ?? '',
+        ];
+        for (const text of cells) {
+            row.insertCell().textContent = text;
+        }
+        row.cells[2].title = event.description;
+        resultsBody.appendChild(row);
+    }
+
+    exportCsvBtn.disabled = results.length === 0;
+    exportJsonBtn.disabled = results.length === 0;
+    if (!updateSummary) return;
+    const count = results.length === 1 ? '1 event' : `${results.length} events`;
+    summary.textContent = results.length > MAX_ROWS
+        ? `${count} · showing the latest ${MAX_ROWS}; narrow the search or export to see them all`
+        : count;
+}
+
+// --- INITIALIZATION ---
+filtersForm.addEventListener('input', scheduleSearch);
+filtersForm.addEventListener('submit', (e) => {
+    e.preventDefault();
+    runSearch();
+});
+exportCsvBtn.addEventListener('click', () => {
+    downloadFile('financial-events-archive.csv', archiveToCsv(results), 'text/csv;charset=utf-8');
+});
+exportJsonBtn.addEventListener('click', () => {
+    downloadFile('financial-events-archive.json', archiveToJson(results), 'application/json');
+});
+
+runSearch();
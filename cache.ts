@@ -0,0 +1,90 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from './types';
+import { datasetKey, WINDOW_DAYS, windowDays, type DatasetKey, type EventQuery } from './providers';
+
+// --- EVENT CACHE ---
+// Each data set is stored in localStorage with the time it was fetched, so the
+// dashboard can paint immediately on load (and work offline) while fresh data
+// is requested in the background.
+export interface CachedDataset {
+  savedAt: number; // Epoch ms when the events were fetched
+  days?: number;   // How many days the window covered; older entries lack it
+  events: FinancialEvent[];
+}
+
+const CACHE_PREFIX = 'financial-events-radar:v1';
+
+// How long each data set is considered fresh. Upcoming macro figures move the
+// most (revised forecasts, rescheduled releases); earnings calendars and
+// already-published results change slowly.
+export const CACHE_TTL_MS: Record<DatasetKey, number> = {
+    'macro/upcoming': 30 * 60 * 1000,
+    'corp/upcoming': 2 * 60 * 60 * 1000,
+    'macro/past': 60 * 60 * 1000,
+    'corp/past': 2 * 60 * 60 * 1000,
+};
+
+function storageKey(providerName: string, query: EventQuery): string {
+    return `${CACHE_PREFIX}:${providerName}:${datasetKey(query)}`;
+}
+
+/** JSON reviver that turns `datetime` strings back into Date objects. */
+function reviveDates(key: string, value: unknown): unknown {
+    if (key === 'datetime' && typeof value === 'string') {
+        return new Date(value);
+    }
+    return value;
+}
+
+export function readCachedDataset(providerName: string, query: EventQuery): CachedDataset | null {
+    let raw: string | null;
+    try {
+        raw = localStorage.getItem(storageKey(providerName, query));
+    } catch {
+        return null; // Storage disabled (e.g. private mode)
+    }
+    if (!raw) return null;
+
+    try {
+        const parsed = JSON.parse(raw, reviveDates) as CachedDataset;
+        if (typeof parsed.savedAt !== 'number' || !Array.isArray(parsed.events)) return null;
+        // Drop anything whose date did not survive the round trip.
+        const events = parsed.events.filter(e => e.datetime instanceof Date && !isNaN(e.datetime.getTime()));
+        return { savedAt: parsed.savedAt, days: parsed.days, events };
+    } catch (e) {
+        console.warn(`Ignoring unreadable cache entry for ${datasetKey(query)}:`, e);
+        return null;
+    }
+}
+
+export function writeCachedDataset(providerName: string, query: EventQuery, events: FinancialEvent[], savedAt: number = Date.now()): CachedDataset {
+    const entry: CachedDataset = { savedAt, days: windowDays(query), events };
+    try {
+        localStorage.setItem(storageKey(providerName, query), JSON.stringify(entry));
+    } catch (e) {
+        console.warn(`Could not cache ${datasetKey(query)} events:`, e);
+    }
+    return entry;
+}
+
+export function isDatasetStale(entry: CachedDataset, query: EventQuery, now: number = Date.now()): boolean {
+    return now - entry.savedAt > CACHE_TTL_MS[datasetKey(query)];
+}
+
+/** Whether a cached data set reaches at least as far as `query` asks. */
+export function coversQuery(entry: CachedDataset, query: EventQuery): boolean {
+    return (entry.days ?? WINDOW_DAYS[query.window]) >= windowDays(query);
+}
+
+/** Formats the age of a data set, e.g. "just now", "12 min ago", "3 h ago". */
+export function formatDataAge(ms: number): string {
+    const minutes = Math.floor(ms / 60000);
+    if (minutes < 1) return 'just now';
+    if (minutes < 60) return `${minutes} min ago`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours} h ago`;
+    return `${Math.floor(hours / 24)} d ago`;
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from './types';
+import { eventIdentity, extractTicker } from './events';
+import { announcementWindow, exchangeForTicker } from './markets';
+import { zonedDateKey } from './timezones';
+
+// --- ICALENDAR EXPORT (RFC 5545) ---
+const PRODUCT_ID = '-//Financial Events Radar//EN';
+
+// Length given to timed events, which are announcements rather than meetings.
+const MACRO_DURATION_MS = 15 * 60 * 1000;
+const CORP_DURATION_MS = 60 * 60 * 1000;
+
+/** Escapes TEXT values: backslash, semicolon, comma and newlines. */
+function escapeText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line to at most 75 octets, continuing with a leading space. */
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    const chunks: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        const limit = chunks.length === 0 ? 75 : 74; // Continuations lose one octet to the space
+        if (currentBytes + bytes > limit) {
+            chunks.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    chunks.push(current);
+    return chunks.join('\r\n ');
+}
+
+function formatUtc(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function formatDate(date: Date): string {
+    return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+function describeEvent(event: FinancialEvent): string {
+    const lines = [event.description];
+    if (event.infoType) lines.push(`Type: ${event.infoType}`);
+    if (event.actual) lines.push(`Actual: ${event.actual}`);
+    if (event.forecast) lines.push(`Forecast: ${event.forecast}`);
+    if (event.previous) lines.push(`Previous: ${event.previous}`);
+    if (event.analystPrediction) lines.push(`Prediction: ${event.analystPrediction}`);
+    if (event.source) lines.push(`Source: ${event.source}`);
+    return lines.join('\n');
+}
+
+/** Start and end of the event as iCalendar properties. */
+function eventTiming(event: FinancialEvent): string[] {
+    if (event.announcementPeriod) {
+        // Earnings that only give a period span that session of their exchange.
+        const exchange = exchangeForTicker(extractTicker(event.name));
+        const day = zonedDateKey(event.datetime, exchange.timeZone);
+        const [start, end] = announcementWindow(day, event.announcementPeriod, exchange);
+        return [`DTSTART:${formatUtc(start)}`, `DTEND:${formatUtc(end)}`];
+    }
+    if (!event.hasTime) {
+        const nextDay = new Date(event.datetime.getTime() + 24 * 60 * 60 * 1000);
+        return [
+            `DTSTART;VALUE=DATE:${formatDate(event.datetime)}`,
+            `DTEND;VALUE=DATE:${formatDate(nextDay)}`,
+        ];
+    }
+    const duration = event.type === 'macro' ? MACRO_DURATION_MS : CORP_DURATION_MS;
+    return [
+        `DTSTART:${formatUtc(event.datetime)}`,
+        `DTEND:${formatUtc(new Date(event.datetime.getTime() + duration))}`,
+    ];
+}
+
+function toVEvent(event: FinancialEvent, stamp: string): string[] {
+    const uid = eventIdentity(event).replace(/[^a-zA-Z0-9|.-]+/g, '-');
+    const categories = [event.type === 'macro' ? 'Macro' : 'Earnings'];
+    if (event.impact) categories.push(`${event.impact} impact`);
+
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${uid}@financial-events-radar`,
+        `DTSTAMP:${stamp}`,
+        ...eventTiming(event),
+        `SUMMARY:${escapeText(event.name)}`,
+        `DESCRIPTION:${escapeText(describeEvent(event))}`,
+        `CATEGORIES:${categories.map(escapeText).join(',')}`,
+    ];
+    if (event.source && /^https?:\/\//.test(event.source)) {
+        lines.push(`URL:${event.source}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/** Serialises events as an iCalendar document (CRLF line endings, folded lines). */
+export function buildCalendar(events: FinancialEvent[], calendarName: string = 'Financial Events Radar', now: Date = new Date()): string {
+    const stamp = formatUtc(now);
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        ...events.flatMap(event => toVEvent(event, stamp)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/** A file-system friendly name for a single-event download. */
+export function calendarFileName(event: FinancialEvent): string {
+    const slug = event.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    return `${event.datetime.toISOString().slice(0, 10)}-${slug || 'event'}.ics`;
+}
@@ -0,0 +1,338 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Citation, FinancialEvent, Verification } from './types';
+import { eventDateKey, eventIdentity, type ChangedField } from './events';
+import { computeSurprise } from './surprise';
+import { eventRegions } from './filters';
+
+// --- EVENT CARDS ---
+// Cards are built from DOM nodes and text, never from HTML strings: names,
+// figures and descriptions come from a model reading the web and are
+// untrusted. Columns are kept in sync by key (day label, event identity), so
+// a re-render only touches the cards that changed.
+export interface EventCardProps {
+  event: FinancialEvent;
+  key: string;                  // eventIdentity(event)
+  isPast: boolean;
+  dayLabel: string;
+  timeZone: string;
+  changedFields: ChangedField[]; // Highlighted after a refresh
+  sessionLabel?: string;        // Explains a Pre-/Post-market time
+}
+
+export interface DayGroupProps {
+  label: string;
+  date: string;        // YYYY-MM-DD in the display time zone
+  collapsed?: boolean; // Unset leaves a group as the user left it
+  cards: EventCardProps[];
+}
+
+export interface DayGroupOptions {
+  isPast: boolean;
+  timeZone: string; // Days begin at midnight in this zone
+  changesFor?: (key: string) => ChangedField[];
+  sessionLabel?: (event: FinancialEvent) => string | undefined;
+  collapsedDays?: ReadonlySet<string>; // Dates (YYYY-MM-DD) to show collapsed
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const CALENDAR_ICON = 'M6 2a1 1 0 00-1 1v1H4a2 2 0 00-2 2v10a2 2 0 002 2h12a2 2 0 002-2V6a2 2 0 00-2-2h-1V3a1 1 0 10-2 0v1H7V3a1 1 0 00-1-1zm0 5a1 1 0 000 2h8a1 1 0 100-2H6z';
+const CHEVRON_ICON = 'M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z';
+
+// The props each card was last filled from, to skip cards that have not changed.
+const renderedProps = new WeakMap<HTMLElement, string>();
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string): HTMLElementTagNameMap[K] {
+    const node = document.createElement(tag);
+    if (className) node.className = className;
+    if (text !== undefined) node.textContent = text;
+    return node;
+}
+
+function icon(path: string, size: number, className?: string): SVGSVGElement {
+    const svg = document.createElementNS(SVG_NS, 'svg');
+    if (className) svg.setAttribute('class', className);
+    svg.setAttribute('viewBox', '0 0 20 20');
+    svg.setAttribute('fill', 'currentColor');
+    svg.setAttribute('width', String(size));
+    svg.setAttribute('height', String(size));
+    svg.setAttribute('aria-hidden', 'true');
+    const shape = document.createElementNS(SVG_NS, 'path');
+    shape.setAttribute('fill-rule', 'evenodd');
+    shape.setAttribute('clip-rule', 'evenodd');
+    shape.setAttribute('d', path);
+    svg.appendChild(shape);
+    return svg;
+}
+
+// --- CITATIONS ---
+export function citationLabel(citation: Citation): string {
+    if (citation.title) return citation.title;
+    try {
+        return new URL(citation.url).hostname;
+    } catch {
+        return citation.url;
+    }
+}
+
+/** Numbered links to the pages a grounded event was drawn from. */
+export function buildCitationLinks(citations: Citation[]): HTMLElement {
+    const links = element('p', 'event-citations', 'Sources:');
+    citations.forEach((citation, i) => {
+        const link = element('a', undefined, `[${i + 1}]`);
+        link.href = citation.url;
+        link.target = '_blank';
+        link.rel = 'noopener noreferrer';
+        link.tabIndex = -1;
+        link.title = citationLabel(citation);
+        links.append(' ', link);
+    });
+    return links;
+}
+
+export function buildUnverifiedBadge(verification: Verification): HTMLElement {
+    const badge = element('span', 'unverified-badge', 'Unverified');
+    badge.title = verification.reason ?? 'The search results do not back this event up';
+    return badge;
+}
+
+// --- CARD ---
+function figure(label: string, value: string | undefined, valueClass: string = ''): HTMLElement {
+    const item = element('div', 'figure-item');
+    item.append(element('span', 'figure-label', label), element('span', `figure-value${valueClass}`, value || '—'));
+    return item;
+}
+
+function detail(label: string, value: string, valueClass: string = ''): HTMLElement {
+    const item = element('div', 'detail-item');
+    item.append(element('span', 'detail-label', label), element('span', `detail-value${valueClass}`, value));
+    return item;
+}
+
+function fillEventCard(card: HTMLElement, props: EventCardProps) {
+    const { event, key, isPast, changedFields, timeZone } = props;
+    const changed = (field: ChangedField) => changedFields.includes(field) ? ' value-changed' : '';
+    card.className = ['event-card', event.type, isPast && 'past', event.impact && `impact-${event.impact.toLowerCase()}`,
+        changedFields.length > 0 && 'changed'].filter(Boolean).join(' ');
+    card.dataset.eventKey = key;
+
+    // Name, time and badges
+    const name = element('h4', 'event-name');
+    name.dataset.description = event.description;
+    const open = element('button', 'event-open', event.name);
+    open.type = 'button';
+    open.tabIndex = -1;
+    name.appendChild(open);
+
+    let eventTime = '—';
+    if (event.type === 'corp' && event.announcementPeriod) {
+        eventTime = event.announcementPeriod;
+    } else if (event.hasTime) {
+        eventTime = event.datetime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone });
+    }
+    const time = element('span', `event-time${changed('time')}`, eventTime);
+    if (props.sessionLabel) time.title = props.sessionLabel;
+    const countdown = element('span', 'event-countdown');
+    if (event.hasTime && !event.announcementPeriod && !isPast) {
+        countdown.dataset.eventTimestamp = String(event.datetime.getTime());
+    }
+    const timeDetails = element('div', 'event-time-details');
+    timeDetails.append(time, countdown);
+    const regionCode = event.currency ?? event.country;
+    if (regionCode) {
+        const region = element('span', 'event-region', regionCode);
+        region.title = eventRegions(event).join(' · ');
+        timeDetails.appendChild(region);
+    }
+    if (changedFields.length > 0) {
+        timeDetails.appendChild(element('span', 'change-badge', `Updated: ${changedFields.join(', ')}`));
+    }
+    if (event.verification?.verified === false) {
+        timeDetails.appendChild(buildUnverifiedBadge(event.verification));
+    }
+    const header = element('div', 'event-header');
+    header.append(name, timeDetails);
+
+    // Figures. Colour and surprise come from the figures themselves, not the model's opinion.
+    const surprise = computeSurprise(event);
+    const sentiment = surprise?.sentiment ?? 'neutral';
+    const details: HTMLElement[] = [];
+    if (event.type === 'macro') {
+        const figures = element('div', 'event-figures');
+        figures.append(
+            figure('Actual', event.actual, ` sentiment-${sentiment}${changed('actual')}`),
+            figure('Forecast', event.forecast, changed('forecast')),
+            figure('Previous', event.previous),
+        );
+        details.push(figures);
+        if (surprise) {
+            const line = element('p', 'event-surprise', 'Surprise ');
+            line.appendChild(element('span', `sentiment-${sentiment}`, surprise.label));
+            details.push(line);
+        }
+    } else {
+        const items: HTMLElement[] = [];
+        if (event.infoType) items.push(detail('Info Type', event.infoType));
+        if (isPast && event.actual) items.push(detail('Actual', event.actual, ` sentiment-${sentiment}${changed('actual')}`));
+        if (event.analystPrediction) items.push(detail('Prediction', event.analystPrediction));
+        if (surprise) items.push(detail('Surprise', surprise.label, ` sentiment-${sentiment}`));
+        if (items.length > 0) {
+            const list = element('div', 'event-details');
+            list.append(...items);
+            details.push(list);
+        }
+    }
+
+    // Footer
+    const calendarButton = element('button', 'add-to-calendar');
+    calendarButton.type = 'button';
+    calendarButton.dataset.eventKey = key;
+    calendarButton.tabIndex = -1;
+    calendarButton.title = 'Add to calendar';
+    calendarButton.setAttribute('aria-label', 'Add to calendar');
+    calendarButton.appendChild(icon(CALENDAR_ICON, 16));
+    const footer = element('div', 'event-footer');
+    footer.appendChild(calendarButton);
+    if (event.source) footer.appendChild(element('p', 'event-source', `Source: ${event.source}`));
+    if (event.citations?.length) footer.appendChild(buildCitationLinks(event.citations));
+
+    card.setAttribute('aria-label', [event.name, props.dayLabel, eventTime !== '—' && eventTime].filter(Boolean).join(', '));
+    card.replaceChildren(header, ...details, footer);
+}
+
+/**
+ * A new event card. Cards are reached with the arrow keys (the caller hands
+ * out the one Tab stop); their own controls are left to the mouse, and the
+ * detail panel repeats them.
+ */
+export function buildEventCard(props: EventCardProps): HTMLElement {
+    const card = element('div');
+    card.tabIndex = -1;
+    card.setAttribute('role', 'article');
+    updateEventCard(card, props);
+    return card;
+}
+
+/** Refills `card` from `props` unless it already shows them. */
+export function updateEventCard(card: HTMLElement, props: EventCardProps) {
+    const signature = JSON.stringify(props);
+    if (renderedProps.get(card) === signature) return;
+    renderedProps.set(card, signature);
+    fillEventCard(card, props);
+}
+
+// --- DAY GROUPS ---
+/**
+ * Groups a column's events by day in the display time zone: the upcoming
+ * soonest day first, the past most recent day first. Events keep their
+ * order within a day.
+ */
+export function groupByDay(
+    events: FinancialEvent[], { isPast, timeZone, changesFor, sessionLabel, collapsedDays }: DayGroupOptions,
+): DayGroupProps[] {
+    const eventsByDay = new Map<string, FinancialEvent[]>();
+    for (const event of events) {
+        const day = eventDateKey(event, timeZone);
+        if (!eventsByDay.has(day)) eventsByDay.set(day, []);
+        eventsByDay.get(day)!.push(event);
+    }
+
+    const days = [...eventsByDay].sort(([a], [b]) => isPast ? b.localeCompare(a) : a.localeCompare(b));
+    return days.map(([date, dayEvents]) => {
+        // Noon UTC keeps the date on the same day whatever the zone.
+        const label = new Date(`${date}T12:00:00Z`).toLocaleDateString(undefined, {
+            weekday: 'long', year: 'numeric', month: 'long', day: 'numeric', timeZone: 'UTC',
+        });
+        return {
+            label,
+            date,
+            collapsed: collapsedDays?.has(date),
+            cards: dayEvents.map(event => {
+                const key = eventIdentity(event);
+                return {
+                    event,
+                    key,
+                    isPast,
+                    dayLabel: label,
+                    timeZone,
+                    changedFields: changesFor?.(key) ?? [],
+                    sessionLabel: sessionLabel?.(event),
+                };
+            }),
+        };
+    });
+}
+
+function buildDayGroup(label: string, date: string, collapsible: boolean): HTMLElement {
+    const group = element('div', 'day-group');
+    group.dataset.day = label;
+    group.dataset.date = date;
+    const header = element('h3', 'day-header');
+    if (collapsible) {
+        header.setAttribute('role', 'button');
+        header.setAttribute('aria-expanded', 'true');
+        header.tabIndex = 0;
+        header.append(element('span', undefined, label), icon(CHEVRON_ICON, 20, 'chevron-icon'));
+    } else {
+        header.textContent = label;
+    }
+    group.append(header, element('div', 'day-events-container'));
+    return group;
+}
+
+/** Collapses or opens a collapsible day group. */
+export function setDayCollapsed(group: Element, collapsed: boolean) {
+    group.classList.toggle('collapsed', collapsed);
+    group.querySelector('.day-header')?.setAttribute('aria-expanded', String(!collapsed));
+}
+
+/** Puts `node` at position `index` among `parent`'s children, moving it only if needed. */
+function placeAt(parent: Element, node: Element, index: number) {
+    const current = parent.children[index];
+    if (current !== node) parent.insertBefore(node, current ?? null);
+}
+
+/**
+ * Brings `container` in line with `days`. Day groups are matched by label and
+ * cards by event identity, so they keep their collapsed state (unless the day
+ * sets one) and focus; cards whose props changed are refilled in place, and
+ * the rest are added or removed. Anything else in the container, such as a
+ * status notice, is removed for the caller to add again.
+ */
+export function syncDayGroups(container: HTMLElement, days: DayGroupProps[], collapsible: boolean) {
+    const groups = new Map<string, HTMLElement>();
+    for (const child of [...container.children]) {
+        if (child instanceof HTMLElement && child.dataset.day !== undefined) {
+            groups.set(child.dataset.day, child);
+        } else {
+            child.remove();
+        }
+    }
+    const cards = new Map<string, HTMLElement>();
+    for (const card of container.querySelectorAll<HTMLElement>('.event-card')) {
+        cards.set(card.dataset.eventKey!, card);
+    }
+
+    days.forEach((day, index) => {
+        const group = groups.get(day.label) ?? buildDayGroup(day.label, day.date, collapsible);
+        groups.delete(day.label);
+        if (collapsible && day.collapsed !== undefined) setDayCollapsed(group, day.collapsed);
+        placeAt(container, group, index);
+
+        const list = group.querySelector('.day-events-container')!;
+        day.cards.forEach((props, i) => {
+            let card = cards.get(props.key);
+            if (card) {
+                updateEventCard(card, props);
+            } else {
+                card = buildEventCard(props);
+            }
+            placeAt(list, card, i);
+        });
+        // Cards no longer in this day were pushed to the end.
+        while (list.children.length > day.cards.length) list.lastElementChild!.remove();
+    });
+    for (const group of groups.values()) group.remove();
+}
@@ -0,0 +1,84 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Release } from './history';
+import { parseFigure } from './surprise';
+
+// --- RELEASE HISTORY CHART ---
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Layout, in SVG user units.
+const SLOT_WIDTH = 36;
+const BAR_WIDTH = 12;
+const BAR_GAP = 2;
+const PLOT_TOP = 8;
+const PLOT_HEIGHT = 90;
+const LABEL_HEIGHT = 18;
+
+function svgElement<K extends keyof SVGElementTagNameMap>(tag: K, attributes: Record<string, string | number>): SVGElementTagNameMap[K] {
+    const element = document.createElementNS(SVG_NS, tag);
+    for (const [name, value] of Object.entries(attributes)) {
+        element.setAttribute(name, String(value));
+    }
+    return element;
+}
+
+/**
+ * Draws actual vs forecast for each release as a pair of bars from a zero
+ * line, oldest on the left, with the release in `currentIdentity` picked
+ * out. Returns null when no release has a figure that parses as a number.
+ */
+export function buildHistoryChart(
+    releases: Release[],
+    currentIdentity: string,
+    formatDate: (iso: string) => string,
+): SVGSVGElement | null {
+    const points = releases.map(release => ({
+        release,
+        actual: parseFigure(release.actual)?.value,
+        forecast: parseFigure(release.forecast)?.value,
+    }));
+    const values = points.flatMap(p => [p.actual, p.forecast]).filter((v): v is number => v !== undefined);
+    if (values.length === 0) return null;
+
+    const max = Math.max(0, ...values);
+    const min = Math.min(0, ...values);
+    const span = max - min || 1;
+    const y = (value: number) => PLOT_TOP + ((max - value) / span) * PLOT_HEIGHT;
+    const width = points.length * SLOT_WIDTH;
+    const height = PLOT_TOP + PLOT_HEIGHT + LABEL_HEIGHT;
+
+    const chart = svgElement('svg', { viewBox: `0 0 ${width} ${height}`, class: 'history-chart', role: 'img' });
+    chart.setAttribute('aria-label', `Actual and forecast for the last ${points.length} release${points.length === 1 ? '' : 's'}`);
+    chart.appendChild(svgElement('line', { x1: 0, x2: width, y1: y(0), y2: y(0), class: 'zero-line' }));
+
+    points.forEach(({ release, actual, forecast }, i) => {
+        const isCurrent = release.identity === currentIdentity;
+        const left = i * SLOT_WIDTH + (SLOT_WIDTH - 2 * BAR_WIDTH - BAR_GAP) / 2;
+        const bars: [string, number | undefined, string | undefined, number][] = [
+            ['forecast', forecast, release.forecast, left],
+            ['actual', actual, release.actual, left + BAR_WIDTH + BAR_GAP],
+        ];
+        for (const [kind, value, text, x] of bars) {
+            if (value === undefined) continue;
+            const top = Math.min(y(value), y(0));
+            const bar = svgElement('rect', {
+                x, y: top, width: BAR_WIDTH, height: Math.max(1, Math.abs(y(value) - y(0))),
+                class: `bar ${kind}${isCurrent ? ' current' : ''}`,
+            });
+            const title = svgElement('title', {});
+            title.textContent = `${kind === 'actual' ? 'Actual' : 'Forecast'} ${text}`;
+            bar.appendChild(title);
+            chart.appendChild(bar);
+        }
+
+        const label = svgElement('text', {
+            x: i * SLOT_WIDTH + SLOT_WIDTH / 2, y: height - 4,
+            class: `axis-label${isCurrent ? ' current' : ''}`, 'text-anchor': 'middle',
+        });
+        label.textContent = formatDate(release.datetime);
+        chart.appendChild(label);
+    });
+    return chart;
+}
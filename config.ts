@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- CONFIG ---
+// Values are injected at build time through `define` in vite.config.ts.
+export type ProviderKind = 'http' | 'fixture';
+
+export interface AppConfig {
+  provider: ProviderKind;
+  fixtureUrl: string;   // JSON or CSV file served alongside the app, e.g. from public/
+  httpEndpoint: string; // Base URL of the events proxy (server/) or another events API
+  refreshIntervalMs: number; // How often to re-fetch all data; 0 disables
+}
+
+const PROVIDER_KINDS: ProviderKind[] = ['http', 'fixture'];
+
+function readProviderKind(value: string | undefined): ProviderKind {
+    const kind = (value || 'http').toLowerCase() as ProviderKind;
+    if (!PROVIDER_KINDS.includes(kind)) {
+        console.warn(`Unknown EVENT_PROVIDER "${value}", falling back to "http".`);
+        return 'http';
+    }
+    return kind;
+}
+
+function readMinutes(value: string | undefined, fallback: number): number {
+    const minutes = value ? Number(value) : fallback;
+    return Number.isFinite(minutes) && minutes >= 0 ? minutes * 60 * 1000 : fallback * 60 * 1000;
+}
+
+export const config: AppConfig = {
+    provider: readProviderKind(process.env.EVENT_PROVIDER),
+    fixtureUrl: process.env.EVENT_FIXTURE_URL || 'fixtures/events.json',
+    httpEndpoint: process.env.EVENT_API_URL || '/api',
+    refreshIntervalMs: readMinutes(process.env.REFRESH_INTERVAL_MINUTES, 15),
+};
@@ -0,0 +1,50 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- COUNTDOWNS ---
+// Cards of timed upcoming events carry their timestamp in a
+// `data-event-timestamp` attribute; the dashboard refreshes the time left
+// every second.
+
+// Screen readers hear a countdown as it passes these marks, not every second.
+export const COUNTDOWN_MILESTONES_MIN = [60, 15, 5, 1];
+
+/** "in 2d 3h", "in 4h 5m", "in 6m", "Upcoming" within the last minute, then "Announced". */
+export function formatTimeDifference(ms: number): string {
+    if (ms <= 0) {
+        return "Announced";
+    }
+    const totalSeconds = Math.floor(ms / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+
+    if (days > 0) return `in ${days}d ${hours}h`;
+    if (hours > 0) return `in ${hours}h ${minutes}m`;
+    if (minutes > 0) return `in ${minutes}m`;
+    return `Upcoming`;
+}
+
+/** The smallest milestone `diff` is within, or undefined when it is further off (or past). */
+export function countdownMilestone(diff: number): number | undefined {
+    if (diff <= 0) return undefined;
+    const minutes = Math.ceil(diff / 60000);
+    return COUNTDOWN_MILESTONES_MIN.filter(m => minutes <= m).pop();
+}
+
+/**
+ * Writes the time left into every countdown under `root`, and reports each
+ * to `onTick` with its card and the milliseconds left.
+ */
+export function refreshCountdowns(root: ParentNode, now: number, onTick?: (card: HTMLElement | null, diff: number) => void) {
+    root.querySelectorAll<HTMLElement>('.event-countdown').forEach(el => {
+        const eventTimestamp = parseInt(el.dataset.eventTimestamp || '0', 10);
+        if (eventTimestamp > 0) {
+            const diff = eventTimestamp - now;
+            el.textContent = formatTimeDifference(diff);
+            onTick?.(el.closest<HTMLElement>('.event-card'), diff);
+        }
+    });
+}
@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from './types';
+import { zonedDateKey } from './timezones';
+
+// --- EVENT IDENTITY ---
+/** Pulls the ticker out of a "COMPANY (TICKER)" name, e.g. "Apple Inc. (AAPL)" -> "AAPL". */
+export function extractTicker(name: string): string | undefined {
+    const match = name.match(/\(([A-Z0-9][A-Z0-9.\-:]{0,11})\)\s*$/i);
+    return match ? match[1].toUpperCase() : undefined;
+}
+
+/** Drops a Google-style exchange prefix, so "NASDAQ:AAPL" and "AAPL" match. */
+export function normalizeTicker(ticker: string | undefined): string | undefined {
+    return ticker?.replace(/^[A-Z]+:/, '');
+}
+
+function normalizeName(name: string): string {
+    return name.toLowerCase().replace(/[^a-z0-9%]+/g, ' ').trim();
+}
+
+/**
+ * A key that stays the same for one event across fetches: its type, UTC
+ * calendar date, and ticker (corporate) or normalised name and region
+ * (macro), since several countries publish releases of the same name, such
+ * as an "Interest Rate Decision", on the same day. The time of day is left
+ * out so that a moved release is seen as a change, not as a different event.
+ */
+export function eventIdentity(event: FinancialEvent): string {
+    const day = event.datetime.toISOString().slice(0, 10);
+    const ticker = event.type === 'corp' ? extractTicker(event.name) : undefined;
+    if (ticker) return `corp|${day}|${ticker}`;
+    const region = event.type === 'macro' ? event.country ?? event.currency : undefined;
+    return `${event.type}|${day}|${normalizeName(event.name)}${region ? `|${region}` : ''}`;
+}
+
+/**
+ * The calendar day (YYYY-MM-DD) an event falls on in `timeZone`. An event
+ * without a time is stored at midnight UTC of its date, and keeps that date
+ * in every zone rather than slipping to the day before west of UTC.
+ */
+export function eventDateKey(event: FinancialEvent, timeZone: string): string {
+    return event.hasTime ? zonedDateKey(event.datetime, timeZone) : event.datetime.toISOString().slice(0, 10);
+}
+
+// Words that name the period a release covers rather than the indicator,
+// e.g. "CPI (Sep)" or "GDP Q2 2025".
+const PERIOD_WORDS = /\b(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?|q[1-4]|h[12]|(?:19|20)\d{2})\b/g;
+
+/**
+ * A key shared by every release of one indicator or one company's earnings:
+ * the ticker for corporate events, otherwise the region and the name with
+ * period words removed.
+ */
+export function seriesKey(event: FinancialEvent): string {
+    const ticker = event.type === 'corp' ? extractTicker(event.name) : undefined;
+    if (ticker) return `corp|${ticker}`;
+    const subject = normalizeName(event.name).replace(PERIOD_WORDS, ' ').replace(/\s+/g, ' ').trim();
+    return `${event.type}|${event.country ?? event.currency ?? ''}|${subject}`;
+}
+
+// --- MERGING & DIFFING ---
+function copyField<K extends keyof FinancialEvent>(target: Partial<FinancialEvent>, source: FinancialEvent, field: K) {
+    const value = source[field];
+    if (value !== undefined) target[field] = value;
+}
+
+/** The fields of `event` that are set, to lay over another event without blanking what it leaves out. */
+export function definedFields(event: FinancialEvent): Partial<FinancialEvent> {
+    const fields: Partial<FinancialEvent> = {};
+    for (const field of Object.keys(event) as (keyof FinancialEvent)[]) copyField(fields, event, field);
+    return fields;
+}
+
+/**
+ * Merges event lists, oldest first, into one list with a single entry per
+ * identity. Later lists win field by field, but a field a later list leaves
+ * empty keeps its earlier value, so an "actual" is not lost to a response
+ * that omitted it.
+ */
+export function mergeEvents(lists: FinancialEvent[][]): FinancialEvent[] {
+    const merged = new Map<string, FinancialEvent>();
+    for (const list of lists) {
+        for (const event of list) {
+            const key = eventIdentity(event);
+            const existing = merged.get(key);
+            if (!existing) {
+                merged.set(key, event);
+                continue;
+            }
+            merged.set(key, { ...existing, ...definedFields(event) });
+        }
+    }
+    return [...merged.values()];
+}
+
+export type ChangedField = 'time' | 'forecast' | 'actual';
+
+export interface EventChange {
+  key: string;
+  fields: ChangedField[];
+  previous: Pick<FinancialEvent, 'datetime' | 'forecast' | 'actual'>;
+}
+
+/** Lists events present in both snapshots whose time, forecast or actual differ. */
+export function diffEvents(before: FinancialEvent[], after: FinancialEvent[]): EventChange[] {
+    const previousByKey = new Map(before.map(e => [eventIdentity(e), e]));
+    const changes: EventChange[] = [];
+
+    for (const event of after) {
+        const key = eventIdentity(event);
+        const previous = previousByKey.get(key);
+        if (!previous) continue;
+
+        const fields: ChangedField[] = [];
+        if (previous.datetime.getTime() !== event.datetime.getTime()
+            || previous.hasTime !== event.hasTime
+            || previous.announcementPeriod !== event.announcementPeriod) {
+            fields.push('time');
+        }
+        if ((previous.forecast ?? '') !== (event.forecast ?? '')) fields.push('forecast');
+        if ((previous.actual ?? '') !== (event.actual ?? '')) fields.push('actual');
+
+        if (fields.length > 0) {
+            changes.push({
+                key,
+                fields,
+                previous: { datetime: previous.datetime, forecast: previous.forecast, actual: previous.actual },
+            });
+        }
+    }
+    return changes;
+}
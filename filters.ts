@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent, Impact } from './types';
+import { extractTicker, normalizeTicker } from './events';
+
+// --- FILTER PREFERENCES ---
+// Watchlists narrow the corporate column to chosen tickers; regions and
+// impact levels narrow the macro column. All are kept in localStorage and
+// apply to upcoming and past events alike.
+export interface Watchlist {
+  id: string;
+  name: string;
+  tickers: string[];
+}
+
+export interface FilterPreferences {
+  watchlists: Watchlist[];
+  activeWatchlistId: string | null; // null shows all companies
+  regions: string[];                // Country or currency codes; empty shows all
+  impacts: Impact[];                // Empty shows all
+}
+
+const STORAGE_KEY = 'financial-events-radar:filters';
+
+export const IMPACT_LEVELS: Impact[] = ['High', 'Medium', 'Low'];
+
+export const DEFAULT_FILTER_PREFERENCES: FilterPreferences = {
+    watchlists: [],
+    activeWatchlistId: null,
+    regions: [],
+    impacts: [],
+};
+
+/**
+ * Splits user input such as "aapl, MSFT  nasdaq:nvda" into unique upper-case
+ * tickers, without exchange prefixes.
+ */
+export function parseTickerList(text: string): string[] {
+    const tickers = text.split(/[\s,;]+/).map(t => normalizeTicker(t.trim().toUpperCase())).filter((t): t is string => !!t);
+    return [...new Set(tickers)];
+}
+
+export function loadFilterPreferences(): FilterPreferences {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return { ...DEFAULT_FILTER_PREFERENCES };
+        const parsed = JSON.parse(raw) as Partial<FilterPreferences>;
+        const watchlists = Array.isArray(parsed.watchlists)
+            ? parsed.watchlists.filter(w => w && typeof w.id === 'string' && Array.isArray(w.tickers))
+            : [];
+        const activeWatchlistId = watchlists.some(w => w.id === parsed.activeWatchlistId) ? parsed.activeWatchlistId! : null;
+        return {
+            watchlists,
+            activeWatchlistId,
+            regions: Array.isArray(parsed.regions) ? parsed.regions.filter(r => typeof r === 'string') : [],
+            impacts: Array.isArray(parsed.impacts) ? parsed.impacts.filter(i => IMPACT_LEVELS.includes(i)) : [],
+        };
+    } catch (e) {
+        console.warn('Ignoring unreadable filter preferences:', e);
+        return { ...DEFAULT_FILTER_PREFERENCES };
+    }
+}
+
+export function saveFilterPreferences(prefs: FilterPreferences) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+    } catch (e) {
+        console.warn('Could not save filter preferences:', e);
+    }
+}
+
+export function activeWatchlist(prefs: FilterPreferences): Watchlist | undefined {
+    return prefs.watchlists.find(w => w.id === prefs.activeWatchlistId);
+}
+
+/** The region codes (country and currency) an event can be filtered by. */
+export function eventRegions(event: FinancialEvent): string[] {
+    return [event.country, event.currency].filter((code): code is string => !!code);
+}
+
+/**
+ * Whether an event passes the watchlist (corp) and region and impact (macro)
+ * filters. An unrated macro event is hidden while impact levels are chosen.
+ */
+export function matchesFilterPreferences(event: FinancialEvent, prefs: FilterPreferences): boolean {
+    if (event.type === 'corp') {
+        const watchlist = activeWatchlist(prefs);
+        if (!watchlist) return true;
+        const ticker = normalizeTicker(extractTicker(event.name));
+        return !!ticker && watchlist.tickers.includes(ticker);
+    }
+    if (prefs.impacts.length > 0 && !(event.impact && prefs.impacts.includes(event.impact))) return false;
+    if (prefs.regions.length === 0) return true;
+    return eventRegions(event).some(code => prefs.regions.includes(code));
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from './types';
+import { eventIdentity, mergeEvents, seriesKey } from './events';
+
+// --- RELEASE HISTORY ---
+// The releases of one series (an indicator, or one company's earnings) that
+// carry a figure, as charted in the event detail drawer. They come from the
+// event archive, topped up with the events currently loaded.
+export interface Release {
+  identity: string;
+  datetime: string; // ISO timestamp
+  actual?: string;
+  forecast?: string; // The forecast, or the analyst prediction for earnings
+}
+
+const MAX_RELEASES = 12;
+
+function toRelease(event: FinancialEvent): Release {
+    return {
+        identity: eventIdentity(event),
+        datetime: event.datetime.toISOString(),
+        actual: event.actual,
+        forecast: event.type === 'corp' ? event.analystPrediction ?? event.forecast : event.forecast,
+    };
+}
+
+/**
+ * The latest releases in the event's series up to and including the event
+ * itself, oldest first. `sources` are merged oldest first, so later lists
+ * win, as in mergeEvents().
+ */
+export function releasesFor(sources: FinancialEvent[][], event: FinancialEvent): Release[] {
+    const series = seriesKey(event);
+    return mergeEvents(sources.map(list => list.filter(e => seriesKey(e) === series)))
+        .filter(e => e.datetime <= event.datetime)
+        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime())
+        .map(toRelease)
+        .filter(release => release.actual || release.forecast || release.identity === eventIdentity(event))
+        .slice(-MAX_RELEASES);
+}
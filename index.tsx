@@ -2,35 +2,92 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import { GoogleGenAI } from "@google/genai";
-
-// --- TYPES ---
-interface FinancialEvent {
-  datetime: Date;
-  name: string;
-  description: string;
-  type: 'macro' | 'corp';
-  hasTime: boolean; // True if a specific time is available
-  source?: string;
-  impact?: 'High' | 'Medium' | 'Low';
-  announcementPeriod?: 'Pre-market' | 'Post-market';
-  // Macro fields (Forex Factory style)
-  actual?: string;
-  forecast?: string;
-  previous?: string;
-  sentiment?: 'good' | 'bad' | 'neutral'; // For coloring past 'actual' values
-  // Corp fields
-  infoType?: string;
-  analystPrediction?: string;
-}
+import type { EventWindow, FinancialEvent, Impact } from './types';
+import { config } from './config';
+import {
+    ALL_QUERIES, createProvider, datasetKey, getRejectedRecords, type DatasetKey, type EventQuery, type RejectedRecord,
+} from './providers';
+import { coversQuery, formatDataAge, isDatasetStale, readCachedDataset, writeCachedDataset, type CachedDataset } from './cache';
+import { withRetry } from './retry';
+import { diffEvents, eventIdentity, type EventChange } from './events';
+import { buildCalendar, calendarFileName } from './calendar';
+import { computeSurprise } from './surprise';
+import {
+    eventRegions, loadFilterPreferences, matchesFilterPreferences, parseTickerList, saveFilterPreferences,
+    activeWatchlist, type FilterPreferences, type Watchlist,
+} from './filters';
+import {
+    describeRule, findDueAlerts, loadAlertRules, loadFiredAlerts, saveAlertRules, saveFiredAlerts,
+    type AlertRule, type DueAlert,
+} from './alerts';
+import {
+    calendarDays, dayHeat, isWithin, loadTimeRange, MAX_RANGE_DAYS, pastInRange, pastSectionLabel, RANGE_PRESET_LABELS,
+    rangeSlug, upcomingInRange, requiredWindowDays, resolveRange, saveTimeRange, shiftAnchor,
+    type CalendarView, type RangePreset, type TimeRange,
+} from './ranges';
+import {
+    availableTimeZones, browserTimeZone, loadDisplayTimeZone, saveDisplayTimeZone, shiftDateKey, zonedDateKey,
+    zonedTimeToUtc,
+} from './timezones';
+import { exchangeForTicker, tradingDay } from './markets';
+import { eventDateKey, extractTicker, seriesKey } from './events';
+import { releasesFor, type Release } from './history';
+import { buildHistoryChart } from './chart';
+import { archiveEvents, loadSeries } from './archive';
+import { downloadFile } from './download';
+import { reconcileEvents, type MergeRecord, type SourcedEvents } from './reconcile';
+import { jumpTargets, searchPalette, type PaletteItem } from './palette';
+import { buildUnverifiedBadge, citationLabel, groupByDay, setDayCollapsed, syncDayGroups } from './cards';
+import { countdownMilestone, refreshCountdowns } from './countdown';
+import {
+    applySharedFilters, decodeViewState, layoutQuery, loadLayouts, preferencesToSave, saveLayouts, viewStateUrl,
+    SHARED_WATCHLIST_ID,
+    type DashboardView, type SavedLayout, type ViewState,
+} from './viewstate';
 
 // --- STATE ---
 let allEvents: FinancialEvent[] = [];
-let activeTimeFilter: '24h' | '7d' = '7d';
+let timeRange: TimeRange = loadTimeRange();
+let activeView: DashboardView = 'list';
+let calendarAnchor = ''; // Any date (YYYY-MM-DD) in the week or month on show
+let timeZonePreference: string | null = loadDisplayTimeZone(); // null follows the browser
+let filterPreferences: FilterPreferences = loadFilterPreferences();
+let alertRules: AlertRule[] = loadAlertRules();
+const firedAlerts = loadFiredAlerts();
+const datasets: Partial<Record<DatasetKey, CachedDataset>> = {};
+let mergeLog: MergeRecord[] = []; // Duplicates merged on the latest rebuild, for the debug view
+let layouts: SavedLayout[] = loadLayouts();
+let linkedView = false; // Showing a view opened from a link, which is not saved (see applyViewState)
+
+// Upcoming days (YYYY-MM-DD) the user collapsed, the event open in the
+// details panel, and one a link asked for that has not loaded yet.
+let collapsedDays = new Set<string>();
+let selectedEventKey: string | null = null;
+let pendingEventKey: string | null = null;
+
+// Load state of each data set, tracked separately so one failing query
+// doesn't take the others down with it.
+interface DatasetStatus {
+  state: 'loading' | 'ready' | 'error';
+  attempt?: number;  // Set while an automatic retry is pending
+  message?: string;  // Set on error
+}
+const datasetStatus: Partial<Record<DatasetKey, DatasetStatus>> = {};
+const MAX_FETCH_ATTEMPTS = 3;
+
+// Events whose time, forecast or actual changed on the latest refresh, keyed
+// by event identity, and the earliest upcoming event (so it can be moved to
+// the past section as soon as it is due).
+const recentChanges = new Map<string, EventChange & { detectedAt: number }>();
+const CHANGE_HIGHLIGHT_MS = 60 * 1000;
+let nextPastDueAt: number | null = null;
+
+// The card that holds the Tab stop among the event cards (by identity), kept
+// across re-renders, and the countdown milestones already announced.
+let focusedCardKey: string | null = null;
+const announcedMilestones = new Map<string, number>();
 
 // --- DOM ELEMENTS ---
-const loader = document.getElementById('loader')!;
-const errorView = document.getElementById('error-view')!;
 const contentView = document.getElementById('content-view')!;
 const columnHeaders = document.getElementById('column-headers')!;
 const eventsGrid = document.getElementById('events-grid')!;
@@ -38,6 +95,7 @@ const noEventsView = document.getElementById('no-events-view')!;
 const tooltip = document.getElementById('tooltip')!;
 const mainContent = document.querySelector('main')!;
 const liveClock = document.getElementById('live-clock')!;
+const dataStatus = document.getElementById('data-status')!;
 
 // Upcoming Events
 const macroEventsContainer = document.getElementById('macro-events-container')!;
@@ -45,156 +103,241 @@ const corpEventsContainer = document.getElementById('corp-events-container')!;
 
 // Past Events
 const pastEventsToggle = document.getElementById('past-events-toggle')!;
+const pastEventsLabel = document.getElementById('past-events-label')!;
 const pastEventsContent = document.getElementById('past-events-content')!;
 const pastMacroEventsContainer = document.getElementById('past-macro-events-container')!;
 const pastCorpEventsContainer = document.getElementById('past-corp-events-container')!;
 
+const datasetContainers: Record<DatasetKey, HTMLElement> = {
+    'macro/upcoming': macroEventsContainer,
+    'corp/upcoming': corpEventsContainer,
+    'macro/past': pastMacroEventsContainer,
+    'corp/past': pastCorpEventsContainer,
+};
+
+const DATASET_LABELS: Record<DatasetKey, string> = {
+    'macro/upcoming': 'upcoming macroeconomic events',
+    'corp/upcoming': 'upcoming corporate earnings',
+    'macro/past': 'past macroeconomic events',
+    'corp/past': 'past corporate earnings',
+};
+
+// Calendar View
+const listView = document.getElementById('list-view')!;
+const calendarView = document.getElementById('calendar-view')!;
+const calendarTitle = document.getElementById('calendar-title')!;
+const calendarGrid = document.getElementById('calendar-grid')!;
+const calendarPrevBtn = document.getElementById('calendar-prev')!;
+const calendarNextBtn = document.getElementById('calendar-next')!;
+
 // Filters
-const filter24hBtn = document.getElementById('filter-24h')!;
-const filter7dBtn = document.getElementById('filter-7d')!;
+const rangeSelect = document.getElementById('range-select') as HTMLSelectElement;
+const rangePast = document.getElementById('range-past')!;
+const rangePastDays = document.getElementById('range-past-days') as HTMLInputElement;
+const rangeCustom = document.getElementById('range-custom')!;
+const rangeFrom = document.getElementById('range-from') as HTMLInputElement;
+const rangeTo = document.getElementById('range-to') as HTMLInputElement;
+const viewButtons: Record<DashboardView, HTMLElement> = {
+    list: document.getElementById('view-list')!,
+    week: document.getElementById('view-week')!,
+    month: document.getElementById('view-month')!,
+};
+const exportCalendarBtn = document.getElementById('export-calendar') as HTMLButtonElement;
+const impactFilters = document.getElementById('impact-filters')!;
+const regionFilters = document.getElementById('region-filters')!;
+const watchlistSelect = document.getElementById('watchlist-select') as HTMLSelectElement;
+const editWatchlistsBtn = document.getElementById('edit-watchlists')!;
+const openSettingsBtn = document.getElementById('open-settings')!;
+
+// Layouts & sharing
+const layoutSelect = document.getElementById('layout-select') as HTMLSelectElement;
+const saveLayoutBtn = document.getElementById('save-layout')!;
+const copyLinkBtn = document.getElementById('copy-link')!;
+const layoutDialog = document.getElementById('layout-dialog') as HTMLDialogElement;
+const layoutNameInput = document.getElementById('layout-name') as HTMLInputElement;
+
+// Settings
+const settingsDialog = document.getElementById('settings-dialog') as HTMLDialogElement;
+const mergeSummary = document.getElementById('merge-summary')!;
+const mergeLogList = document.getElementById('merge-log')!;
+const timeZoneSelect = document.getElementById('timezone-select') as HTMLSelectElement;
+const watchlistEditor = document.getElementById('watchlist-editor')!;
+const layoutEditor = document.getElementById('layout-editor')!;
+const addWatchlistBtn = document.getElementById('add-watchlist')!;
+const alertEditor = document.getElementById('alert-editor')!;
+const addAlertBtn = document.getElementById('add-alert')!;
+const notificationStatus = document.getElementById('notification-status')!;
+const enableNotificationsBtn = document.getElementById('enable-notifications') as HTMLButtonElement;
+const toastContainer = document.getElementById('toast-container')!;
+const announcer = document.getElementById('announcer')!;
+
+// Command palette
+const openPaletteBtn = document.getElementById('open-palette')!;
+const commandPalette = document.getElementById('command-palette') as HTMLDialogElement;
+const paletteInput = document.getElementById('palette-input') as HTMLInputElement;
+const paletteResults = document.getElementById('palette-results')!;
+
+// Event Detail Drawer
+const eventDrawer = document.getElementById('event-drawer') as HTMLDialogElement;
+const drawerTitle = document.getElementById('drawer-title')!;
+const drawerBody = document.getElementById('drawer-body')!;
+const closeDrawerBtn = document.getElementById('close-drawer')!;
 
 // Subscription
 const floatingSubscribe = document.getElementById('floating-subscribe')!;
 const subscribeForm = document.getElementById('subscribe-form')!;
 const subscribeInnerContent = document.querySelector('.subscribe-inner-content')! as HTMLElement;
 const subscribeSuccess = document.getElementById('subscribe-success')!;
+const subscribeError = document.getElementById('subscribe-error')!;
+const emailInput = document.getElementById('email-input') as HTMLInputElement;
 
-// --- GEMINI API ---
-const ai = new GoogleGenAI({apiKey: process.env.API_KEY});
+// --- DATA PROVIDER ---
+const provider = createProvider(config);
 
-async function fetchFinancialData(prompt: string): Promise<string> {
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash",
-        contents: prompt,
-        config: {
-            tools: [{googleSearch: {}}],
-        },
-    });
-    return response.text;
+// Records that failed schema validation, and duplicates that were merged, can
+// be inspected from the browser console with `radarDebug.rejectedRecords()`
+// and `radarDebug.mergedEvents()`.
+declare global {
+  interface Window {
+    radarDebug: {
+      rejectedRecords: () => readonly RejectedRecord[];
+      mergedEvents: () => MergeRecord[];
+    };
+  }
 }
+window.radarDebug = { rejectedRecords: getRejectedRecords, mergedEvents: () => mergeLog };
 
-// --- DATA PARSING ---
-function parseApiResponse(responseText: string, type: 'macro' | 'corp', isPast: boolean): FinancialEvent[] {
-    const events: FinancialEvent[] = [];
-    if (!responseText) return events;
+// --- TIME ZONE & RANGE ---
+function displayTimeZone(): string {
+    return timeZonePreference ?? browserTimeZone();
+}
 
-    const lines = responseText.split('\n').filter(line => line.includes('::'));
+/** The selected time range as concrete instants. */
+function currentRange(now: Date = new Date()) {
+    return resolveRange(timeRange, displayTimeZone(), now);
+}
 
-    for (const line of lines) {
-        try {
-            const parts = line.split('::').map(p => p.trim());
-            
-            let eventDate: Date | null = null;
-            let announcementPeriod: 'Pre-market' | 'Post-market' | undefined = undefined;
-            let hasTime = true;
-
-            const dateStr = parts[0].replace(/\*/g, '').trim();
-            const timeStr = parts[1].trim();
-
-            if (timeStr.toLowerCase().includes('pre-market')) {
-                announcementPeriod = 'Pre-market';
-                // Use a consistent UTC time for sorting (approx 9:00 AM ET)
-                eventDate = new Date(`${dateStr}T13:00:00Z`);
-            } else if (timeStr.toLowerCase().includes('post-market')) {
-                announcementPeriod = 'Post-market';
-                // Use a consistent UTC time for sorting (approx 5:00 PM ET)
-                eventDate = new Date(`${dateStr}T21:00:00Z`);
-            } else if (timeStr.toUpperCase() === 'N/A') {
-                hasTime = false;
-                // Set to midnight UTC for day-based sorting
-                eventDate = new Date(`${dateStr}T00:00:00Z`);
-            } else {
-                 // The prompt requests HH:MM UTC, so we append 'Z' to parse it as UTC
-                eventDate = new Date(`${dateStr}T${timeStr}:00Z`);
-            }
+// --- FILTERING ---
+/** Upcoming events in the time range that pass the active filters, in chronological order. */
+function getFilteredUpcomingEvents(now: Date = new Date()): FinancialEvent[] {
+    return upcomingInRange(allEvents, currentRange(now), now)
+        .filter(event => matchesFilterPreferences(event, filterPreferences));
+}
 
-            if (!eventDate || isNaN(eventDate.getTime())) {
-                console.warn(`Could not parse date/time: ${parts[0]} ${parts[1]}`);
-                continue;
-            }
+/** Past events shown in the past section that pass the watchlist and region filters. */
+function getFilteredPastEvents(now: Date = new Date()): FinancialEvent[] {
+    return pastInRange(allEvents, currentRange(now), now)
+        .filter(event => matchesFilterPreferences(event, filterPreferences));
+}
 
-            const event: FinancialEvent = {
-                datetime: eventDate,
-                name: "N/A",
-                description: "N/A",
-                type: type,
-                hasTime,
-                announcementPeriod,
-            };
-
-            if (type === 'macro') {
-                if (isPast) { // Past Macro: DATE::TIME::IMPACT::NAME::DESC::ACTUAL::FORECAST::PREVIOUS::SENTIMENT::SOURCE
-                    event.impact = parts[2] as any;
-                    event.name = parts[3];
-                    event.description = parts[4];
-                    event.actual = parts[5] !== 'N/A' ? parts[5] : undefined;
-                    event.forecast = parts[6] !== 'N/A' ? parts[6] : undefined;
-                    event.previous = parts[7] !== 'N/A' ? parts[7] : undefined;
-                    event.sentiment = parts[8].toLowerCase() as any;
-                    event.source = parts[9] !== 'N/A' ? parts[9] : undefined;
-                } else { // Future Macro: DATE::TIME::IMPACT::NAME::DESC::FORECAST::PREVIOUS::SOURCE
-                    event.impact = parts[2] as any;
-                    event.name = parts[3];
-                    event.description = parts[4];
-                    event.forecast = parts[5] !== 'N/A' ? parts[5] : undefined;
-                    event.previous = parts[6] !== 'N/A' ? parts[6] : undefined;
-                    event.source = parts[7] !== 'N/A' ? parts[7] : undefined;
-                }
-            } else { // corp
-                const [ , , name, description, ...rest] = parts;
-                event.name = name;
-                event.description = description;
-
-                if (isPast) { // ...::INFO_TYPE::REAL::PREDICTION::SOURCE
-                    event.infoType = rest[0] !== 'N/A' ? rest[0] : undefined;
-                    event.actual = rest[1] !== 'N/A' ? rest[1] : undefined;
-                    event.analystPrediction = rest[2] !== 'N/A' ? rest[2] : undefined;
-                    event.source = rest[3] !== 'N/A' ? rest[3] : undefined;
-                } else { // ...::INFO_TYPE::PREDICTION::SOURCE
-                    event.infoType = rest[0] !== 'N/A' ? rest[0] : undefined;
-                    event.analystPrediction = rest[1] !== 'N/A' ? rest[1] : undefined;
-                    event.source = rest[2] !== 'N/A' ? rest[2] : undefined;
-                }
-            }
-            events.push(event);
-        } catch (e) {
-            console.error("Error parsing line:", line, e);
+/** Every event in the selected range (past and upcoming) that passes the filters. */
+function getFilteredRangeEvents(now: Date = new Date()): FinancialEvent[] {
+    const { start, end } = currentRange(now);
+    return allEvents
+        .filter(event => isWithin(event, [start, end]) && matchesFilterPreferences(event, filterPreferences))
+        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+}
+
+function setFilterPreferences(prefs: FilterPreferences) {
+    filterPreferences = prefs;
+    saveFilterPreferences(preferencesToSave(prefs, linkedView ? loadFilterPreferences() : undefined));
+    renderFilterControls();
+    renderEvents();
+    syncUrl();
+}
+
+/** Syncs the impact chips, and rebuilds the region chips (from the codes present in the data) and the watchlist menu. */
+function renderFilterControls() {
+    for (const chip of impactFilters.querySelectorAll<HTMLElement>('[data-impact]')) {
+        chip.setAttribute('aria-pressed', String(filterPreferences.impacts.includes(chip.dataset.impact as Impact)));
+    }
+
+    const codes = new Set(filterPreferences.regions);
+    for (const event of allEvents) {
+        if (event.type === 'macro') eventRegions(event).forEach(code => codes.add(code));
+    }
+    regionFilters.innerHTML = '';
+    // Countries (two letters) as well as currencies, so one euro-area country
+    // can be picked out; countries come first.
+    const sorted = [...codes].sort((a, b) => a.length - b.length || a.localeCompare(b));
+    for (const code of sorted) {
+        const chip = document.createElement('button');
+        chip.type = 'button';
+        chip.textContent = code;
+        chip.dataset.region = code;
+        chip.setAttribute('aria-pressed', String(filterPreferences.regions.includes(code)));
+        regionFilters.appendChild(chip);
+    }
+
+    watchlistSelect.innerHTML = '';
+    watchlistSelect.add(new Option('All companies', ''));
+    for (const watchlist of filterPreferences.watchlists) {
+        const label = watchlist.id === SHARED_WATCHLIST_ID ? `${watchlist.name} (from link)` : watchlist.name;
+        watchlistSelect.add(new Option(`${label} (${watchlist.tickers.length})`, watchlist.id));
+    }
+    watchlistSelect.value = filterPreferences.activeWatchlistId ?? '';
+}
+
+/** Syncs the range menu, its extra inputs and the past section label with `timeRange`. */
+function renderRangeControls(now: Date = new Date()) {
+    if (rangeSelect.options.length === 0) {
+        for (const [preset, label] of Object.entries(RANGE_PRESET_LABELS)) {
+            rangeSelect.add(new Option(label, preset));
         }
     }
-    return events;
+    const resolved = currentRange(now);
+    rangeSelect.value = timeRange.preset;
+
+    rangePast.hidden = timeRange.preset !== 'past';
+    rangePastDays.max = String(MAX_RANGE_DAYS);
+    rangePastDays.value = String(timeRange.pastDays ?? 7);
+
+    rangeCustom.hidden = timeRange.preset !== 'custom';
+    const timeZone = displayTimeZone();
+    const today = zonedDateKey(now, timeZone);
+    for (const input of [rangeFrom, rangeTo]) {
+        input.min = shiftDateKey(today, -MAX_RANGE_DAYS);
+        input.max = shiftDateKey(today, MAX_RANGE_DAYS);
+    }
+    rangeFrom.value = zonedDateKey(resolved.start, timeZone);
+    rangeTo.value = zonedDateKey(new Date(resolved.end.getTime() - 1), timeZone);
+
+    pastEventsLabel.textContent = pastSectionLabel(timeRange, resolved, timeZone);
 }
 
 // --- RENDERING LOGIC ---
 function renderEvents() {
-    // Clear all containers first
-    macroEventsContainer.innerHTML = '';
-    corpEventsContainer.innerHTML = '';
-    pastMacroEventsContainer.innerHTML = '';
-    pastCorpEventsContainer.innerHTML = '';
+    // A card that moves to another day is re-inserted, so a focused card is focused again afterwards.
+    const cardHadFocus = document.activeElement instanceof HTMLElement && document.activeElement.classList.contains('event-card');
 
     const now = new Date();
     const futureEvents = allEvents.filter(event => event.datetime >= now);
-    const pastEvents = allEvents.filter(event => event.datetime < now);
+    const pastEvents = getFilteredPastEvents(now);
+    nextPastDueAt = futureEvents.length > 0 ? Math.min(...futureEvents.map(e => e.datetime.getTime())) : null;
 
-    // --- RENDER UPCOMING EVENTS ---
-    const futureLimit = new Date();
-    if (activeTimeFilter === '24h') {
-        futureLimit.setHours(now.getHours() + 24);
-    } else {
-        futureLimit.setDate(now.getDate() + 7);
+    for (const [key, change] of recentChanges) {
+        if (now.getTime() - change.detectedAt > CHANGE_HIGHLIGHT_MS) recentChanges.delete(key);
     }
 
-    const timeFilteredEvents = futureEvents.filter(event => event.datetime <= futureLimit);
+    listView.hidden = activeView !== 'list';
+    calendarView.hidden = activeView === 'list';
+    if (activeView !== 'list') renderCalendar(now);
 
-    const macroEvents = timeFilteredEvents
-        .filter(event => event.type === 'macro')
-        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
-
-    const corpEvents = timeFilteredEvents
-        .filter(event => event.type === 'corp')
-        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+    // --- RENDER UPCOMING EVENTS ---
+    const rangeIsPast = !currentRange(now).upcoming;
+    const timeFilteredEvents = getFilteredUpcomingEvents(now);
+    const macroEvents = timeFilteredEvents.filter(event => event.type === 'macro');
+    const corpEvents = timeFilteredEvents.filter(event => event.type === 'corp');
+    exportCalendarBtn.disabled = getFilteredRangeEvents(now).length === 0;
 
-    if (macroEvents.length === 0 && corpEvents.length === 0) {
+    // Only claim there is nothing to show once both upcoming queries have settled.
+    const upcomingSettled = datasetStatus['macro/upcoming']?.state === 'ready' && datasetStatus['corp/upcoming']?.state === 'ready';
+    if (rangeIsPast) {
+        noEventsView.textContent = 'This range is entirely in the past. Its events are listed below.';
+        noEventsView.style.display = 'block';
+        eventsGrid.style.display = 'none';
+    } else if (macroEvents.length === 0 && corpEvents.length === 0 && upcomingSettled) {
+        noEventsView.textContent = 'No upcoming events in this timeframe.';
         noEventsView.style.display = 'block';
         eventsGrid.style.display = 'none';
     } else {
@@ -202,110 +345,32 @@ function renderEvents() {
         eventsGrid.style.display = 'grid';
     }
     
-    // Helper function to render events for a column
-    const populateColumn = (container: HTMLElement, events: FinancialEvent[], type: 'macro' | 'corp', isPast: boolean = false) => {
-        if (events.length === 0 && !isPast) { // Don't show "no events" message for past section
-             container.innerHTML = `<div class="no-events-column">No upcoming ${type} events in this timeframe.</div>`;
-             return;
-        }
+    // Times and day groups follow the display time zone.
+    const timeZone = displayTimeZone();
 
-        const eventsByDay = events.reduce((acc, event) => {
-            const day = event.datetime.toLocaleDateString(undefined, {
-                weekday: 'long', year: 'numeric', month: 'long', day: 'numeric'
-            });
-            if (!acc[day]) {
-                acc[day] = [];
-            }
-            acc[day].push(event);
-            return acc;
-        }, {} as Record<string, FinancialEvent[]>);
-
-        const sortedDays = Object.keys(eventsByDay).sort((a, b) => {
-            const dateA = eventsByDay[a][0].datetime.getTime();
-            const dateB = eventsByDay[b][0].datetime.getTime();
-            return isPast ? dateB - dateA : dateA - dateB; 
+    // Each column is synced in place by day and event, so unchanged cards stay put.
+    const populateColumn = (container: HTMLElement, events: FinancialEvent[], type: 'macro' | 'corp', isPast: boolean = false) => {
+        const key = datasetKey({ type, window: isPast ? 'past' : 'upcoming' });
+        const status = datasetStatus[key];
+        const notice = status && status.state !== 'ready' ? renderSectionStatus(key, status, !!datasets[key]) : null;
+        // Without data of its own, the section shows only its status.
+        const statusOnly = !!status && status.state !== 'ready' && !datasets[key];
+        const days = statusOnly ? [] : groupByDay(events, {
+            isPast,
+            timeZone,
+            changesFor: key => recentChanges.get(key)?.fields ?? [],
+            sessionLabel: event => event.type === 'corp' && event.announcementPeriod ? describeSession(event) : undefined,
+            collapsedDays: isPast ? undefined : collapsedDays,
         });
+        syncDayGroups(container, days, !isPast);
 
-        for (const day of sortedDays) {
-            const dayGroup = document.createElement('div');
-            dayGroup.className = 'day-group';
-            
-            const dayHeader = document.createElement('h3');
-            dayHeader.className = 'day-header';
-
-            if (!isPast) {
-                dayHeader.setAttribute('role', 'button');
-                dayHeader.setAttribute('aria-expanded', 'true');
-                dayHeader.innerHTML = `
-                    <span>${day}</span>
-                    <svg class="chevron-icon" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor" width="20" height="20">
-                        <path fill-rule="evenodd" d="M5.293 7.293a1 1 0 011.414 0L10 10.586l3.293-3.293a1 1 0 111.414 1.414l-4 4a1 1 0 01-1.414 0l-4-4a1 1 0 010-1.414z" clip-rule="evenodd" />
-                    </svg>
-                `;
-            } else {
-                dayHeader.textContent = day;
-            }
-
-            dayGroup.appendChild(dayHeader);
-
-            const dayEventsContainer = document.createElement('div');
-            dayEventsContainer.className = 'day-events-container';
-
-            for (const event of eventsByDay[day]) {
-                const eventCard = document.createElement('div');
-                const tagClass = event.type === 'macro' ? 'macro' : 'corp';
-                const pastClass = isPast ? 'past' : '';
-                const impactClass = event.impact ? `impact-${event.impact.toLowerCase()}` : '';
-                eventCard.className = `event-card ${tagClass} ${pastClass} ${impactClass}`;
-                
-                let detailsHtml = '';
-                if (event.type === 'macro') {
-                     detailsHtml = `
-                        <div class="event-figures">
-                            <div class="figure-item"><span class="figure-label">Actual</span><span class="figure-value sentiment-${event.sentiment || 'neutral'}">${event.actual || '—'}</span></div>
-                            <div class="figure-item"><span class="figure-label">Forecast</span><span class="figure-value">${event.forecast || '—'}</span></div>
-                            <div class="figure-item"><span class="figure-label">Previous</span><span class="figure-value">${event.previous || '—'}</span></div>
-                        </div>`;
-                } else { // corp
-                    let detailsItems = '';
-                    if (event.infoType) detailsItems += `<div class="detail-item"><span class="detail-label">Info Type</span><span class="detail-value">${event.infoType}</span></div>`;
-                    if (isPast && event.actual) detailsItems += `<div class="detail-item"><span class="detail-label">Actual</span><span class="detail-value">${event.actual}</span></div>`;
-                    if (event.analystPrediction) detailsItems += `<div class="detail-item"><span class="detail-label">Prediction</span><span class="detail-value">${event.analystPrediction}</span></div>`;
-                    detailsHtml = detailsItems ? `<div class="event-details">${detailsItems}</div>` : '';
-                }
-                
-                const sourceHtml = event.source ? `<p class="event-source">Source: ${event.source}</p>` : '';
-                
-                let eventTime: string;
-                let countdownHtml: string;
-            
-                if (event.type === 'corp' && event.announcementPeriod) {
-                    eventTime = event.announcementPeriod;
-                    countdownHtml = '<span class="event-countdown"></span>';
-                } else if (!event.hasTime) {
-                    eventTime = '—';
-                    countdownHtml = '<span class="event-countdown"></span>';
-                } else {
-                    eventTime = event.datetime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-                    countdownHtml = !isPast ? `<span class="event-countdown" data-event-timestamp="${event.datetime.getTime()}"></span>` : '<span class="event-countdown"></span>';
-                }
-
-                eventCard.innerHTML = `
-                    <div class="event-header">
-                        <h4 class="event-name" data-description="${event.description.replace(/"/g, '&quot;')}">${event.name}</h4>
-                        <div class="event-time-details">
-                            <span class="event-time">${eventTime}</span>
-                            ${countdownHtml}
-                        </div>
-                    </div>
-                    ${detailsHtml}
-                    ${sourceHtml}
-                `;
-                dayEventsContainer.appendChild(eventCard);
-            }
-            dayGroup.appendChild(dayEventsContainer);
-            container.appendChild(dayGroup);
+        if (!statusOnly && events.length === 0 && !isPast) { // Don't show "no events" message for past section
+            const message = document.createElement('div');
+            message.className = 'no-events-column';
+            message.textContent = `No upcoming ${type} events in this timeframe.`;
+            container.prepend(message);
         }
+        if (notice) container.prepend(notice);
     };
 
     populateColumn(macroEventsContainer, macroEvents, 'macro');
@@ -317,104 +382,1118 @@ function renderEvents() {
     
     populateColumn(pastMacroEventsContainer, pastMacroEvents, 'macro', true);
     populateColumn(pastCorpEventsContainer, pastCorpEvents, 'corp', true);
-    
+
+    const activeCard = updateRovingFocus();
+    if (cardHadFocus) activeCard?.focus({ preventScroll: true });
     updateCountdowns(); // Initial countdown update
 }
 
+/**
+ * Builds the loading / error notice shown at the top of a section. Returns
+ * null when cached data is on screen and a background refresh is running,
+ * since the header status already reports that.
+ */
+function renderSectionStatus(key: DatasetKey, status: DatasetStatus, hasData: boolean): HTMLElement | null {
+    const label = DATASET_LABELS[key];
+    const notice = document.createElement('div');
+
+    if (status.state === 'loading') {
+        if (hasData) return null;
+        notice.className = 'section-status loading';
+        notice.setAttribute('role', 'status');
+        const retryNote = status.attempt ? ` (attempt ${status.attempt} of ${MAX_FETCH_ATTEMPTS})` : '';
+        const spinner = document.createElement('div');
+        spinner.className = 'spinner small';
+        const text = document.createElement('p');
+        text.textContent = `Loading ${label}…${retryNote}`;
+        notice.append(spinner, text);
+        return notice;
+    }
+
+    notice.className = `section-status error ${hasData ? 'compact' : ''}`;
+    notice.setAttribute('role', 'alert');
+    const text = hasData
+        ? `Couldn't refresh ${label}. Showing cached data.`
+        : `Couldn't load ${label}.`;
+    const message = document.createElement('p');
+    message.textContent = text;
+    const retry = document.createElement('button');
+    retry.type = 'button';
+    retry.className = 'section-retry';
+    retry.dataset.dataset = key;
+    retry.textContent = 'Retry';
+    notice.append(message, retry);
+    return notice;
+}
+
+// --- CALENDAR VIEW ---
+const DAY_LABEL_OPTIONS: Intl.DateTimeFormatOptions = { weekday: 'long', month: 'long', day: 'numeric' };
+
+/** Formats a YYYY-MM-DD date; noon UTC keeps it on the same day in any zone. */
+function formatDateKey(key: string, options: Intl.DateTimeFormatOptions): string {
+    return new Date(`${key}T12:00:00Z`).toLocaleDateString(undefined, { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Draws the week or month grid: each day is shaded by how busy and
+ * high-impact it is, and lists its events (the first few, in month view).
+ * Days outside the range on show are dimmed.
+ */
+function renderCalendar(now: Date) {
+    const view = activeView as CalendarView;
+    const timeZone = displayTimeZone();
+    const resolved = currentRange(now);
+    const shownUntil = resolved.upcoming ? resolved.upcoming[1] : resolved.past[1];
+    const firstShown = zonedDateKey(resolved.past[0], timeZone);
+    const lastShown = zonedDateKey(new Date(shownUntil.getTime() - 1), timeZone);
+    if (!calendarAnchor) calendarAnchor = zonedDateKey(resolved.start, timeZone);
+
+    const eventsByDay = new Map<string, FinancialEvent[]>();
+    for (const event of [...getFilteredPastEvents(now), ...getFilteredUpcomingEvents(now)]) {
+        const day = eventDateKey(event, timeZone);
+        eventsByDay.set(day, [...(eventsByDay.get(day) ?? []), event]);
+    }
+
+    const days = calendarDays(calendarAnchor, view);
+    calendarTitle.textContent = view === 'week'
+        ? `Week of ${formatDateKey(days[0], { month: 'long', day: 'numeric', year: 'numeric' })}`
+        : formatDateKey(calendarAnchor, { month: 'long', year: 'numeric' });
+    calendarGrid.className = `calendar-grid ${view}`;
+    calendarGrid.innerHTML = '';
+
+    for (const day of days.slice(0, 7)) {
+        const weekday = document.createElement('div');
+        weekday.className = 'calendar-weekday';
+        weekday.textContent = formatDateKey(day, { weekday: 'short' });
+        calendarGrid.appendChild(weekday);
+    }
+
+    for (const key of days) {
+        const dayEvents = (eventsByDay.get(key) ?? []).sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+        const highImpact = dayEvents.filter(e => e.impact === 'High').length;
+
+        const cell = document.createElement('div');
+        cell.className = `calendar-day heat-${dayHeat(dayEvents)}`;
+        cell.classList.toggle('today', key === zonedDateKey(now, timeZone));
+        cell.classList.toggle('other-month', view === 'month' && key.slice(0, 7) !== calendarAnchor.slice(0, 7));
+        cell.classList.toggle('out-of-range', key < firstShown || key > lastShown);
+
+        const dateButton = document.createElement('button');
+        dateButton.type = 'button';
+        dateButton.className = 'calendar-date';
+        dateButton.dataset.day = key;
+        dateButton.textContent = String(Number(key.slice(8)));
+        const summary = dayEvents.length === 1 ? '1 event' : `${dayEvents.length} events`;
+        dateButton.setAttribute('aria-label',
+            `${formatDateKey(key, DAY_LABEL_OPTIONS)}: ${summary}${highImpact ? `, ${highImpact} high impact` : ''}. Show this day as a list.`);
+        cell.appendChild(dateButton);
+
+        const list = document.createElement('ul');
+        list.className = 'calendar-events';
+        const limit = view === 'week' ? dayEvents.length : 3;
+        for (const event of dayEvents.slice(0, limit)) {
+            const item = document.createElement('li');
+            item.className = `calendar-event ${event.type} ${event.impact ? `impact-${event.impact.toLowerCase()}` : ''}`;
+            const time = event.hasTime && !event.announcementPeriod
+                ? event.datetime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone })
+                : event.announcementPeriod ?? '';
+            item.textContent = view === 'week' && time ? `${time} ${event.name}` : event.name;
+            item.title = event.impact ? `${event.name} (${event.impact} impact)` : event.name;
+            list.appendChild(item);
+        }
+        if (dayEvents.length > limit) {
+            const more = document.createElement('li');
+            more.className = 'calendar-more';
+            more.textContent = `+${dayEvents.length - limit} more`;
+            list.appendChild(more);
+        }
+        cell.appendChild(list);
+        calendarGrid.appendChild(cell);
+    }
+}
+
+function setView(view: DashboardView) {
+    activeView = view;
+    for (const [name, button] of Object.entries(viewButtons)) {
+        button.classList.toggle('active', name === view);
+        button.setAttribute('aria-selected', String(name === view));
+    }
+    calendarAnchor = zonedDateKey(currentRange().start, displayTimeZone());
+    renderEvents();
+    syncUrl();
+}
+
 // --- TIME & COUNTDOWN LOGIC ---
+/** Explains a Pre-/Post-market time, e.g. "After the NYSE / Nasdaq close (10:00 PM GMT+2)". */
+function describeSession(event: FinancialEvent): string {
+    const exchange = exchangeForTicker(extractTicker(event.name));
+    const isPre = event.announcementPeriod === 'Pre-market';
+    const date = zonedDateKey(event.datetime, exchange.timeZone);
+    const session = tradingDay(date, exchange);
+    const boundary = zonedTimeToUtc(date, isPre ? session.open : session.close, exchange.timeZone);
+    const shown = boundary.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZoneName: 'short', timeZone: displayTimeZone() });
+    const note = session.closed ? ', market closed that day' : !isPre && session.earlyClose ? ', early close' : '';
+    return `${isPre ? 'Before' : 'After'} the ${exchange.name} ${isPre ? 'open' : 'close'} (${shown}${note})`;
+}
+
 function updateHeaderClock() {
     const now = new Date();
     liveClock.textContent = now.toLocaleString(undefined, {
         dateStyle: 'full',
-        timeStyle: 'medium',
+        timeStyle: 'long',
+        timeZone: displayTimeZone(),
     });
 }
 
-function formatTimeDifference(ms: number): string {
-    if (ms <= 0) {
-        return "Announced";
+function updateDataStatus() {
+    const statuses = Object.values(datasetStatus);
+    const isRefreshing = statuses.some(s => s.state === 'loading');
+    const refreshFailed = statuses.some(s => s.state === 'error');
+    const timestamps = Object.values(datasets).map(d => d.savedAt);
+    if (timestamps.length === 0) {
+        dataStatus.textContent = isRefreshing ? 'Loading…' : '';
+        return;
     }
-    const totalSeconds = Math.floor(ms / 1000);
-    const days = Math.floor(totalSeconds / 86400);
-    const hours = Math.floor((totalSeconds % 86400) / 3600);
-    const minutes = Math.floor((totalSeconds % 3600) / 60);
-
-    if (days > 0) return `in ${days}d ${hours}h`;
-    if (hours > 0) return `in ${hours}h ${minutes}m`;
-    if (minutes > 0) return `in ${minutes}m`;
-    return `Upcoming`;
+    const age = formatDataAge(Date.now() - Math.min(...timestamps));
+    let status = `Data updated ${age}`;
+    if (isRefreshing) {
+        status += ' · Refreshing…';
+    } else if (refreshFailed) {
+        status = `Some data is out of date · oldest from ${age}`;
+    }
+    dataStatus.textContent = status;
+    dataStatus.classList.toggle('stale', refreshFailed);
 }
 
 function updateCountdowns() {
     const now = new Date().getTime();
-    const countdownElements = document.querySelectorAll<HTMLElement>('.event-countdown');
-    countdownElements.forEach(el => {
-        const eventTimestamp = parseInt(el.dataset.eventTimestamp || '0', 10);
-        if (eventTimestamp > 0) {
-            const diff = eventTimestamp - now;
-            el.textContent = formatTimeDifference(diff);
+    // An upcoming event just became due: re-render to move it into the past section.
+    if (nextPastDueAt !== null && now >= nextPastDueAt) {
+        renderEvents();
+        return;
+    }
+    refreshCountdowns(document, now, announceCountdown);
+}
+
+function announceCountdown(card: HTMLElement | null, diff: number) {
+    const key = card?.dataset.eventKey;
+    const milestone = countdownMilestone(diff);
+    if (!key || milestone === undefined || announcedMilestones.get(key) === milestone) return;
+    const minutes = Math.ceil(diff / 60000);
+    announcedMilestones.set(key, milestone);
+    const name = card!.querySelector('.event-open')?.textContent ?? '';
+    announce(`${name} in ${minutes} minute${minutes === 1 ? '' : 's'}`);
+}
+
+
+// --- CALENDAR EXPORT ---
+/** Downloads the events in the selected range that pass the current filters as one .ics file. */
+function exportFilteredEvents() {
+    const now = new Date();
+    const events = getFilteredRangeEvents(now);
+    if (events.length === 0) return;
+    const range = rangeSlug(timeRange, currentRange(now), displayTimeZone());
+    downloadFile(`financial-events-${range}.ics`, buildCalendar(events), 'text/calendar;charset=utf-8');
+}
+
+function exportSingleEvent(key: string) {
+    const event = allEvents.find(e => eventIdentity(e) === key);
+    if (!event) return;
+    downloadFile(calendarFileName(event), buildCalendar([event], event.name), 'text/calendar;charset=utf-8');
+}
+
+// --- EVENT DETAIL DRAWER ---
+function appendDetail(list: HTMLElement, label: string, value: string | undefined, className: string = '') {
+    if (!value) return;
+    const term = document.createElement('dt');
+    term.textContent = label;
+    const detail = document.createElement('dd');
+    detail.textContent = value;
+    if (className) detail.className = className;
+    list.append(term, detail);
+}
+
+function drawerSection(title: string): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'drawer-section';
+    const heading = document.createElement('h3');
+    heading.textContent = title;
+    section.appendChild(heading);
+    return section;
+}
+
+/** Fills the drawer's history section with a chart and a table of releases, newest first. */
+function renderReleaseHistory(section: HTMLElement, releases: Release[], key: string) {
+    const timeZone = displayTimeZone();
+    const formatShort = (iso: string) => new Date(iso).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone });
+    const chart = buildHistoryChart(releases, key, formatShort);
+    if (chart) {
+        const legend = document.createElement('p');
+        legend.className = 'chart-legend';
+        legend.innerHTML = '<span class="swatch forecast"></span>Forecast <span class="swatch actual"></span>Actual';
+        section.append(chart, legend);
+    }
+    if (releases.length > 1 || (releases.length === 1 && releases[0].identity !== key)) {
+        const table = document.createElement('table');
+        table.className = 'history-table';
+        table.innerHTML = '<thead><tr><th scope="col">Date</th><th scope="col">Actual</th><th scope="col">Forecast</th></tr></thead>';
+        const rows = document.createElement('tbody');
+        for (const release of [...releases].reverse()) {
+            const row = rows.insertRow();
+            if (release.identity === key) row.className = 'current';
+            for (const text of [formatShort(release.datetime), release.actual ?? '—', release.forecast ?? '—']) {
+                row.insertCell().textContent = text;
+            }
+        }
+        table.appendChild(rows);
+        section.appendChild(table);
+    } else {
+        const empty = document.createElement('p');
+        empty.className = 'settings-hint';
+        empty.textContent = 'No earlier releases seen yet. History builds up as the dashboard sees new releases.';
+        section.appendChild(empty);
+    }
+}
+
+/** Opens the detail panel for one event: description, figures, source and earlier releases. */
+function openEventDrawer(key: string) {
+    const event = allEvents.find(e => eventIdentity(e) === key);
+    if (!event) return;
+    selectedEventKey = key;
+    const timeZone = displayTimeZone();
+    drawerTitle.textContent = event.name;
+    drawerBody.innerHTML = '';
+
+    // When, how important, where
+    const when = formatDateKey(eventDateKey(event, timeZone), { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+    const time = event.announcementPeriod
+        ? `${event.announcementPeriod} (${describeSession(event)})`
+        : event.hasTime ? event.datetime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZoneName: 'short', timeZone }) : 'Time not announced';
+    const meta = document.createElement('p');
+    meta.className = 'drawer-meta';
+    meta.textContent = [when, time, event.impact && `${event.impact} impact`, eventRegions(event).join(' · ')]
+        .filter(Boolean).join(' · ');
+    const description = document.createElement('p');
+    description.className = 'drawer-description';
+    description.textContent = event.description;
+    drawerBody.append(meta, description);
+
+    // Figures
+    const surprise = computeSurprise(event);
+    const figures = document.createElement('dl');
+    figures.className = 'drawer-figures';
+    appendDetail(figures, 'Info type', event.infoType);
+    appendDetail(figures, 'Actual', event.actual, `sentiment-${surprise?.sentiment ?? 'neutral'}`);
+    appendDetail(figures, 'Forecast', event.forecast);
+    appendDetail(figures, 'Prediction', event.analystPrediction);
+    appendDetail(figures, 'Previous', event.previous);
+    appendDetail(figures, 'Surprise', surprise?.label, `sentiment-${surprise?.sentiment ?? 'neutral'}`);
+    if (figures.childElementCount > 0) drawerBody.appendChild(figures);
+
+    // Sources: the one the event names, as a link when it is one, then the
+    // pages the search results cited and whether they back the event up
+    if (event.source || event.citations?.length || event.verification) {
+        const section = drawerSection('Sources');
+        if (event.source) {
+            const isUrl = /^https?:\/\//i.test(event.source);
+            const source = document.createElement(isUrl ? 'a' : 'p');
+            source.textContent = event.source;
+            if (source instanceof HTMLAnchorElement) {
+                source.href = event.source;
+                source.target = '_blank';
+                source.rel = 'noopener noreferrer';
+            }
+            section.appendChild(source);
+        }
+        if (event.citations?.length) {
+            const list = document.createElement('ol');
+            list.className = 'drawer-citations';
+            for (const citation of event.citations) {
+                const link = document.createElement('a');
+                link.href = citation.url;
+                link.target = '_blank';
+                link.rel = 'noopener noreferrer';
+                link.textContent = citationLabel(citation);
+                list.appendChild(document.createElement('li')).appendChild(link);
+            }
+            section.appendChild(list);
+        }
+        if (event.verification?.verified === false) {
+            const note = document.createElement('p');
+            note.className = 'drawer-unverified';
+            note.append(buildUnverifiedBadge(event.verification), ` ${event.verification.reason ?? ''}`);
+            section.appendChild(note);
+        }
+        drawerBody.appendChild(section);
+    }
+
+    // Earlier releases of the same indicator or company, from the archive
+    const history = drawerSection('Previous releases');
+    const loading = document.createElement('p');
+    loading.className = 'settings-hint';
+    loading.textContent = 'Loading history…';
+    history.appendChild(loading);
+    drawerBody.appendChild(history);
+    drawerBody.dataset.eventKey = key;
+    loadSeries(seriesKey(event))
+        .catch(error => {
+            console.warn('Could not read the event archive:', error);
+            return [];
+        })
+        .then(archived => {
+            // Another event may have been opened in the meantime.
+            if (drawerBody.dataset.eventKey !== key) return;
+            loading.remove();
+            renderReleaseHistory(history, releasesFor([archived, allEvents], event), key);
+        });
+
+    const actions = document.createElement('div');
+    actions.className = 'drawer-actions';
+    const calendarBtn = document.createElement('button');
+    calendarBtn.type = 'button';
+    calendarBtn.className = 'header-action';
+    calendarBtn.textContent = 'Add to calendar';
+    calendarBtn.addEventListener('click', () => exportSingleEvent(key));
+    actions.appendChild(calendarBtn);
+    drawerBody.appendChild(actions);
+
+    if (!eventDrawer.open) eventDrawer.showModal();
+    syncUrl();
+}
+
+// --- SETTINGS PANEL ---
+function addWatchlistRow(watchlist?: Watchlist) {
+    const row = document.createElement('div');
+    row.className = 'settings-row';
+    row.dataset.watchlistId = watchlist?.id ?? crypto.randomUUID();
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.placeholder = 'Name';
+    nameInput.value = watchlist?.name ?? '';
+    nameInput.setAttribute('aria-label', 'Watchlist name');
+
+    const tickersInput = document.createElement('input');
+    tickersInput.type = 'text';
+    tickersInput.placeholder = 'Tickers';
+    tickersInput.value = watchlist?.tickers.join(', ') ?? '';
+    tickersInput.setAttribute('aria-label', 'Tickers');
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'link-button';
+    removeBtn.textContent = 'Remove';
+    removeBtn.addEventListener('click', () => row.remove());
+
+    row.append(nameInput, tickersInput, removeBtn);
+    watchlistEditor.appendChild(row);
+}
+
+function addLayoutRow(layout: SavedLayout) {
+    const row = document.createElement('div');
+    row.className = 'settings-row';
+    row.dataset.layoutId = layout.id;
+
+    const nameInput = document.createElement('input');
+    nameInput.type = 'text';
+    nameInput.maxLength = 60;
+    nameInput.value = layout.name;
+    nameInput.setAttribute('aria-label', 'Layout name');
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'link-button';
+    removeBtn.textContent = 'Remove';
+    removeBtn.addEventListener('click', () => row.remove());
+
+    row.append(nameInput, removeBtn);
+    layoutEditor.appendChild(row);
+}
+
+function addAlertRow(rule?: AlertRule) {
+    const row = document.createElement('div');
+    row.className = 'settings-row';
+    row.dataset.ruleId = rule?.id ?? crypto.randomUUID();
+
+    const enabledInput = document.createElement('input');
+    enabledInput.type = 'checkbox';
+    enabledInput.checked = rule?.enabled ?? true;
+    enabledInput.setAttribute('aria-label', 'Alert enabled');
+
+    const leadInput = document.createElement('input');
+    leadInput.type = 'number';
+    leadInput.min = '1';
+    leadInput.max = '1440';
+    leadInput.required = true;
+    leadInput.value = String(rule?.leadMinutes ?? 15);
+    leadInput.setAttribute('aria-label', 'Minutes before the event');
+
+    const leadLabel = document.createElement('span');
+    leadLabel.textContent = 'min before';
+
+    // Targets are encoded as "macro:<impact>" or "watchlist:<id>" ("*" for any).
+    const targetSelect = document.createElement('select');
+    targetSelect.setAttribute('aria-label', 'Alert target');
+    targetSelect.add(new Option('High impact macro', 'macro:High'));
+    targetSelect.add(new Option('Medium+ impact macro', 'macro:Medium'));
+    targetSelect.add(new Option('Any macro', 'macro:Low'));
+    targetSelect.add(new Option('Earnings in any watchlist', 'watchlist:*'));
+    for (const watchlist of filterPreferences.watchlists) {
+        targetSelect.add(new Option(`Earnings in "${watchlist.name}"`, `watchlist:${watchlist.id}`));
+    }
+    if (rule) {
+        targetSelect.value = rule.target === 'macro'
+            ? `macro:${rule.minImpact ?? 'High'}`
+            : `watchlist:${rule.watchlistId ?? '*'}`;
+    }
+
+    const removeBtn = document.createElement('button');
+    removeBtn.type = 'button';
+    removeBtn.className = 'link-button';
+    removeBtn.textContent = 'Remove';
+    removeBtn.addEventListener('click', () => row.remove());
+
+    row.append(enabledInput, leadInput, leadLabel, targetSelect, removeBtn);
+    alertEditor.appendChild(row);
+}
+
+function readAlertRows(): AlertRule[] {
+    return [...alertEditor.querySelectorAll<HTMLElement>('.settings-row')].map(row => {
+        const [enabledInput, leadInput] = row.querySelectorAll('input');
+        const [target, value] = row.querySelector('select')!.value.split(':');
+        const leadMinutes = Math.min(1440, Math.max(1, Math.round(Number(leadInput.value) || 15)));
+        const rule: AlertRule = { id: row.dataset.ruleId!, enabled: enabledInput.checked, leadMinutes, target: target as AlertRule['target'] };
+        if (rule.target === 'macro') {
+            rule.minImpact = value as AlertRule['minImpact'];
+        } else {
+            rule.watchlistId = value === '*' ? null : value;
+        }
+        return rule;
+    });
+}
+
+function updateNotificationStatus() {
+    if (!('Notification' in window)) {
+        notificationStatus.textContent = 'This browser has no notifications; alerts appear in the page.';
+        enableNotificationsBtn.hidden = true;
+        return;
+    }
+    const messages: Record<NotificationPermission, string> = {
+        granted: 'Browser notifications are on.',
+        denied: 'Browser notifications are blocked; alerts appear in the page.',
+        default: 'Alerts appear in the page until browser notifications are enabled.',
+    };
+    notificationStatus.textContent = messages[Notification.permission];
+    enableNotificationsBtn.hidden = Notification.permission !== 'default';
+}
+
+/** Lists the duplicates merged on the latest rebuild, and why, in the settings dialog. */
+function renderMergeLog() {
+    const timeZone = displayTimeZone();
+    mergeLogList.innerHTML = '';
+    mergeSummary.textContent = mergeLog.length === 0
+        ? 'No duplicate events were found in the latest data.'
+        : `${mergeLog.length} event${mergeLog.length === 1 ? ' was' : 's were'} reported more than once and merged.`;
+    for (const merge of mergeLog) {
+        const item = document.createElement('li');
+        const name = document.createElement('strong');
+        name.textContent = merge.name;
+        const members = document.createElement('p');
+        members.textContent = merge.members
+            .map(m => `${m.name} (${m.source}, ${m.datetime.toLocaleString([], { dateStyle: 'short', timeStyle: 'short', timeZone })})`)
+            .join(' · ');
+        const reasons = document.createElement('ul');
+        for (const reason of merge.reasons) {
+            reasons.appendChild(document.createElement('li')).textContent = reason;
+        }
+        item.append(name, members, reasons);
+        mergeLogList.appendChild(item);
+    }
+}
+
+function openSettings() {
+    if (timeZoneSelect.options.length === 0) {
+        timeZoneSelect.add(new Option(`Browser default (${browserTimeZone()})`, ''));
+        const zones = availableTimeZones();
+        for (const zone of zones.includes('UTC') ? zones : ['UTC', ...zones]) {
+            timeZoneSelect.add(new Option(zone.replace(/_/g, ' '), zone));
         }
+    }
+    timeZoneSelect.value = timeZonePreference ?? '';
+    watchlistEditor.innerHTML = '';
+    filterPreferences.watchlists.forEach(addWatchlistRow);
+    if (filterPreferences.watchlists.length === 0) addWatchlistRow();
+    layoutEditor.innerHTML = '';
+    layouts.forEach(addLayoutRow);
+    alertEditor.innerHTML = '';
+    alertRules.forEach(addAlertRow);
+    updateNotificationStatus();
+    renderMergeLog();
+    settingsDialog.returnValue = ''; // Escape keeps the last value, so clear it
+    settingsDialog.showModal();
+}
+
+function saveSettings() {
+    timeZonePreference = timeZoneSelect.value || null;
+    saveDisplayTimeZone(timeZonePreference);
+    renderRangeControls();
+    updateHeaderClock();
+
+    const watchlists: Watchlist[] = [];
+    watchlistEditor.querySelectorAll<HTMLElement>('.settings-row').forEach((row, i) => {
+        const [nameInput, tickersInput] = row.querySelectorAll('input');
+        const tickers = parseTickerList(tickersInput.value);
+        const name = nameInput.value.trim();
+        if (!name && tickers.length === 0) return;
+        watchlists.push({ id: row.dataset.watchlistId!, name: name || `Watchlist ${i + 1}`, tickers });
+    });
+    const activeWatchlistId = watchlists.some(w => w.id === filterPreferences.activeWatchlistId)
+        ? filterPreferences.activeWatchlistId
+        : null;
+    setFilterPreferences({ ...filterPreferences, watchlists, activeWatchlistId });
+
+    layouts = [...layoutEditor.querySelectorAll<HTMLElement>('.settings-row')].flatMap(row => {
+        const layout = layouts.find(l => l.id === row.dataset.layoutId);
+        const name = row.querySelector('input')!.value.trim();
+        return layout ? [{ ...layout, name: name || layout.name }] : [];
     });
+    saveLayouts(layouts);
+    renderLayoutControls();
+
+    alertRules = readAlertRows().map(rule =>
+        // Rules pointing at a deleted watchlist fall back to "any watchlist".
+        rule.watchlistId && !watchlists.some(w => w.id === rule.watchlistId) ? { ...rule, watchlistId: null } : rule);
+    saveAlertRules(alertRules);
+    checkAlerts();
+}
+
+// --- ALERTS ---
+function showToast(title: string, body: string) {
+    const toast = document.createElement('div');
+    toast.className = 'toast';
+    toast.setAttribute('role', 'status');
+    const text = document.createElement('div');
+    const heading = document.createElement('strong');
+    heading.textContent = title;
+    const message = document.createElement('p');
+    message.textContent = body;
+    text.append(heading, message);
+    const closeBtn = document.createElement('button');
+    closeBtn.type = 'button';
+    closeBtn.setAttribute('aria-label', 'Dismiss');
+    closeBtn.textContent = '×';
+    closeBtn.addEventListener('click', () => toast.remove());
+    toast.append(text, closeBtn);
+    toastContainer.appendChild(toast);
+    setTimeout(() => toast.remove(), 15 * 1000);
 }
 
+/** Shows an alert as a browser notification, or as a toast if that is not possible. */
+function deliverAlert({ key, rule, event }: DueAlert) {
+    const minutes = Math.max(1, Math.round((event.datetime.getTime() - Date.now()) / 60000));
+    const title = `${event.name} in ${minutes} min`;
+    const details = [event.impact ? `${event.impact} impact` : event.infoType, event.forecast && `Forecast ${event.forecast}`]
+        .filter(Boolean).join(' · ');
+    const body = details || describeRule(rule, filterPreferences);
+
+    if ('Notification' in window && Notification.permission === 'granted') {
+        try {
+            new Notification(title, { body, tag: key });
+            return;
+        } catch (e) {
+            // Some mobile browsers only allow notifications from a service worker.
+            console.warn('Notification failed, falling back to a toast:', e);
+        }
+    }
+    showToast(title, body);
+}
+
+function checkAlerts() {
+    const due = findDueAlerts(allEvents, alertRules, filterPreferences, firedAlerts);
+    if (due.length === 0) return;
+    const firedAt = Date.now();
+    for (const alert of due) {
+        firedAlerts.set(alert.key, firedAt);
+        deliverAlert(alert);
+    }
+    saveFiredAlerts(firedAlerts);
+}
+
+// --- TOOLTIP ---
+function showTooltip(target: HTMLElement | null) {
+    if (!target?.dataset.description) return;
+    tooltip.textContent = target.dataset.description ?? '';
+    tooltip.style.display = 'block';
+    tooltip.setAttribute('aria-hidden', 'false');
+    const rect = target.getBoundingClientRect();
+    positionTooltip(rect.left, rect.bottom + 8);
+}
+
+/** Places the tooltip at (x, y), flipped to the other side where it would leave the window. */
+function positionTooltip(x: number, y: number) {
+    tooltip.style.left = `${x}px`;
+    tooltip.style.top = `${y}px`;
+
+    const rect = tooltip.getBoundingClientRect();
+    if (rect.right > window.innerWidth) {
+        tooltip.style.left = `${x - rect.width - 30}px`;
+    }
+    if (rect.bottom > window.innerHeight) {
+        tooltip.style.top = `${y - rect.height - 30}px`;
+    }
+}
+
+function hideTooltip() {
+    tooltip.style.display = 'none';
+    tooltip.setAttribute('aria-hidden', 'true');
+}
+
+// --- ACCESSIBILITY ---
+/** Reads `message` out through the polite live region. */
+function announce(message: string) {
+    // Each message is its own node, so messages in quick succession are all read.
+    const line = document.createElement('p');
+    line.textContent = message;
+    announcer.appendChild(line);
+    setTimeout(() => line.remove(), 10 * 1000);
+}
+
+// --- KEYBOARD NAVIGATION ---
+/** The cards in `scope` the arrow keys can reach: not in a collapsed day or past section. */
+function navigableCards(scope: ParentNode = listView): HTMLElement[] {
+    const pastHidden = !pastEventsContent.classList.contains('expanded');
+    return [...scope.querySelectorAll<HTMLElement>('.event-card')].filter(card =>
+        !card.closest('.day-group.collapsed') && !(pastHidden && pastEventsContent.contains(card)));
+}
+
+/**
+ * Gives the one Tab stop among the cards to the card last focused, or to the
+ * first card when that one is gone or hidden. Returns that card.
+ */
+function updateRovingFocus(): HTMLElement | undefined {
+    const cards = navigableCards();
+    const active = cards.find(card => card.dataset.eventKey === focusedCardKey) ?? cards[0];
+    for (const card of listView.querySelectorAll<HTMLElement>('.event-card')) {
+        card.tabIndex = card === active ? 0 : -1;
+    }
+    return active;
+}
+
+function focusCard(card: HTMLElement) {
+    focusedCardKey = card.dataset.eventKey ?? null;
+    for (const other of listView.querySelectorAll<HTMLElement>('.event-card')) {
+        other.tabIndex = other === card ? 0 : -1;
+    }
+    card.focus({ preventScroll: true });
+    card.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+}
+
+/** Arrow keys move within a column (left / right to the other one), Enter opens the card. */
+function handleCardKeydown(e: KeyboardEvent, card: HTMLElement) {
+    if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        openEventDrawer(card.dataset.eventKey!);
+        return;
+    }
+    const column = card.closest<HTMLElement>('.events-column')!;
+    const cards = navigableCards(column);
+    const index = cards.indexOf(card);
+    let next: HTMLElement | undefined;
+    switch (e.key) {
+        case 'ArrowDown': next = cards[index + 1]; break;
+        case 'ArrowUp': next = cards[index - 1]; break;
+        case 'Home': next = cards[0]; break;
+        case 'End': next = cards[cards.length - 1]; break;
+        case 'ArrowLeft':
+        case 'ArrowRight': {
+            const columns = [...column.parentElement!.querySelectorAll<HTMLElement>(':scope > .events-column')];
+            const other = columns[columns.indexOf(column) + (e.key === 'ArrowRight' ? 1 : -1)];
+            // The card in the other column closest to the same height.
+            const top = card.getBoundingClientRect().top;
+            const distance = (c: HTMLElement) => Math.abs(c.getBoundingClientRect().top - top);
+            next = other ? navigableCards(other).sort((a, b) => distance(a) - distance(b))[0] : undefined;
+            break;
+        }
+        default: return;
+    }
+    e.preventDefault();
+    if (next) focusCard(next);
+}
+
+function toggleDayGroup(header: Element) {
+    const group = header.parentElement!;
+    const collapse = !group.classList.contains('collapsed');
+    if (collapse) collapsedDays.add(group.dataset.date!);
+    else collapsedDays.delete(group.dataset.date!);
+    setDayCollapsed(group, collapse);
+    updateRovingFocus();
+    syncUrl();
+}
+
+/** Collapses every upcoming day when all are open, otherwise opens them all. */
+function toggleAllDays() {
+    const headers = [...listView.querySelectorAll('.day-header[aria-expanded]')];
+    const expand = headers.some(header => header.getAttribute('aria-expanded') === 'false');
+    for (const header of headers) {
+        if ((header.getAttribute('aria-expanded') === 'true') !== expand) toggleDayGroup(header);
+    }
+    announce(expand ? 'All days expanded' : 'All days collapsed');
+}
+
+function togglePastEvents() {
+    pastEventsToggle.click();
+    announce(pastEventsContent.classList.contains('expanded') ? 'Past events shown' : 'Past events hidden');
+}
+
+// The presets that need no further input, in menu order.
+const CYCLED_PRESETS: RangePreset[] = ['24h', 'today', 'week', '7d', '14d', '30d'];
+
+function cycleTimeRange(step: number) {
+    const index = CYCLED_PRESETS.indexOf(timeRange.preset);
+    const preset = index === -1
+        ? CYCLED_PRESETS[0]
+        : CYCLED_PRESETS[(index + step + CYCLED_PRESETS.length) % CYCLED_PRESETS.length];
+    setTimeRange({ preset });
+    announce(`Time range: ${RANGE_PRESET_LABELS[preset]}`);
+}
+
+function cycleWatchlist() {
+    const ids = [null, ...filterPreferences.watchlists.map(w => w.id)];
+    const next = ids[(ids.indexOf(filterPreferences.activeWatchlistId) + 1) % ids.length];
+    setFilterPreferences({ ...filterPreferences, activeWatchlistId: next });
+    const watchlist = filterPreferences.watchlists.find(w => w.id === next);
+    announce(watchlist ? `Watchlist: ${watchlist.name}` : 'All companies');
+}
+
+/** Shows `key`'s card in the list, opening its day or the past section as needed; opens its details when it is filtered out. */
+function jumpToEvent(key: string) {
+    if (activeView !== 'list') setView('list');
+    const card = listView.querySelector<HTMLElement>(`.event-card[data-event-key="${CSS.escape(key)}"]`);
+    if (!card) {
+        openEventDrawer(key);
+        return;
+    }
+    if (pastEventsContent.contains(card) && !pastEventsContent.classList.contains('expanded')) setPastExpanded(true);
+    const collapsedHeader = card.closest('.day-group.collapsed')?.querySelector('.day-header');
+    if (collapsedHeader) toggleDayGroup(collapsedHeader);
+    focusCard(card);
+}
+
+interface Shortcut {
+  key: string;
+  label: string;
+  run: () => void;
+}
+
+const SHORTCUTS: Shortcut[] = [
+    { key: '/', label: 'Jump to a ticker or indicator', run: () => openPalette() },
+    { key: '1', label: 'List view', run: () => setView('list') },
+    { key: '2', label: 'Week view', run: () => setView('week') },
+    { key: '3', label: 'Month view', run: () => setView('month') },
+    { key: '[', label: 'Previous time range', run: () => cycleTimeRange(-1) },
+    { key: ']', label: 'Next time range', run: () => cycleTimeRange(1) },
+    { key: 'w', label: 'Next watchlist', run: cycleWatchlist },
+    { key: 'c', label: 'Clear region filters', run: () => {
+        setFilterPreferences({ ...filterPreferences, regions: [] });
+        announce('Region filters cleared');
+    } },
+    { key: 'p', label: 'Show or hide past events', run: togglePastEvents },
+    { key: 'e', label: 'Expand or collapse all days', run: toggleAllDays },
+    { key: 's', label: 'Alerts & settings', run: () => openSettings() },
+    { key: 'l', label: 'Copy a link to this view', run: copyViewLink },
+    { key: '?', label: 'Keyboard shortcuts', run: () => openPalette() },
+];
+
+function isTypingTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement
+        && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+// --- COMMAND PALETTE ---
+interface PaletteEntry extends PaletteItem {
+  shortcut?: string;
+  run: () => void;
+}
+
+let paletteTargets: PaletteEntry[] = [];
+let paletteMatches: PaletteEntry[] = [];
+let paletteIndex = 0;
+
+const paletteCommands = (): PaletteEntry[] => SHORTCUTS
+    .filter(shortcut => shortcut.key !== '/' && shortcut.key !== '?')
+    .map(shortcut => ({ label: shortcut.label, keywords: 'command', shortcut: shortcut.key, run: shortcut.run }));
+
+function openPalette() {
+    const timeZone = displayTimeZone();
+    const formatDate = (date: Date) => date.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric', timeZone });
+    paletteTargets = jumpTargets(allEvents, new Date(), formatDate)
+        .map(target => ({ ...target, run: () => jumpToEvent(target.eventKey) }));
+    paletteInput.value = '';
+    renderPaletteResults();
+    commandPalette.showModal();
+}
+
+/** Lists the matches for the palette input; with no input, the keyboard commands. */
+function renderPaletteResults() {
+    const query = paletteInput.value;
+    paletteMatches = query.trim()
+        ? searchPalette([...paletteTargets, ...paletteCommands()], query)
+        : paletteCommands();
+    paletteIndex = 0;
+    paletteResults.innerHTML = '';
+    paletteMatches.forEach((entry, i) => {
+        const option = document.createElement('li');
+        option.id = `palette-option-${i}`;
+        option.setAttribute('role', 'option');
+        const label = document.createElement('span');
+        label.className = 'palette-label';
+        label.textContent = entry.label;
+        option.appendChild(label);
+        if (entry.detail || entry.shortcut) {
+            const detail = document.createElement(entry.shortcut ? 'kbd' : 'span');
+            detail.className = 'palette-detail';
+            detail.textContent = entry.shortcut ?? entry.detail!;
+            option.appendChild(detail);
+        }
+        option.addEventListener('click', () => choosePaletteEntry(i));
+        paletteResults.appendChild(option);
+    });
+    if (paletteMatches.length === 0) {
+        const empty = document.createElement('li');
+        empty.className = 'palette-empty';
+        empty.textContent = 'No matching tickers, indicators or commands';
+        paletteResults.appendChild(empty);
+    }
+    highlightPaletteOption();
+}
+
+function highlightPaletteOption() {
+    paletteResults.querySelectorAll('[role="option"]').forEach((option, i) => {
+        option.setAttribute('aria-selected', String(i === paletteIndex));
+        if (i === paletteIndex) option.scrollIntoView({ block: 'nearest' });
+    });
+    if (paletteMatches.length > 0) {
+        paletteInput.setAttribute('aria-activedescendant', `palette-option-${paletteIndex}`);
+    } else {
+        paletteInput.removeAttribute('aria-activedescendant');
+    }
+}
+
+function choosePaletteEntry(index: number) {
+    const entry = paletteMatches[index];
+    if (!entry) return;
+    commandPalette.close();
+    entry.run();
+}
 
 // --- EVENT HANDLERS ---
 function setupEventListeners() {
-    filter24hBtn.addEventListener('click', () => setTimeFilter('24h'));
-    filter7dBtn.addEventListener('click', () => setTimeFilter('7d'));
+    exportCalendarBtn.addEventListener('click', exportFilteredEvents);
+
+    // Time range & view
+    rangeSelect.addEventListener('change', () => {
+        const preset = rangeSelect.value as RangePreset;
+        if (preset === 'past') {
+            setTimeRange({ preset, pastDays: 7 });
+        } else if (preset === 'custom') {
+            const today = zonedDateKey(new Date(), displayTimeZone());
+            setTimeRange({ preset, from: today, to: shiftDateKey(today, 13) });
+        } else {
+            setTimeRange({ preset });
+        }
+    });
+    rangePastDays.addEventListener('change', () => {
+        if (rangePastDays.checkValidity()) setTimeRange({ preset: 'past', pastDays: Number(rangePastDays.value) });
+    });
+    const onCustomDatesChange = () => {
+        if (rangeFrom.value && rangeTo.value) setTimeRange({ preset: 'custom', from: rangeFrom.value, to: rangeTo.value });
+    };
+    rangeFrom.addEventListener('change', onCustomDatesChange);
+    rangeTo.addEventListener('change', onCustomDatesChange);
+    for (const [view, button] of Object.entries(viewButtons)) {
+        button.addEventListener('click', () => setView(view as DashboardView));
+    }
+    calendarPrevBtn.addEventListener('click', () => {
+        calendarAnchor = shiftAnchor(calendarAnchor, activeView as CalendarView, -1);
+        renderEvents();
+    });
+    calendarNextBtn.addEventListener('click', () => {
+        calendarAnchor = shiftAnchor(calendarAnchor, activeView as CalendarView, 1);
+        renderEvents();
+    });
+    // Picking a day in the calendar lists just that day.
+    calendarGrid.addEventListener('click', (e) => {
+        const day = (e.target as HTMLElement).closest<HTMLElement>('.calendar-date')?.dataset.day;
+        if (!day) return;
+        setTimeRange({ preset: 'custom', from: day, to: day });
+        setView('list');
+    });
+
+    // Watchlist, impact & region filters
+    impactFilters.addEventListener('click', (e) => {
+        const impact = (e.target as HTMLElement).closest<HTMLElement>('[data-impact]')?.dataset.impact as Impact | undefined;
+        if (!impact) return;
+        const impacts = filterPreferences.impacts.includes(impact)
+            ? filterPreferences.impacts.filter(i => i !== impact)
+            : [...filterPreferences.impacts, impact];
+        setFilterPreferences({ ...filterPreferences, impacts });
+    });
+    regionFilters.addEventListener('click', (e) => {
+        const code = (e.target as HTMLElement).closest<HTMLElement>('[data-region]')?.dataset.region;
+        if (!code) return;
+        const regions = filterPreferences.regions.includes(code)
+            ? filterPreferences.regions.filter(r => r !== code)
+            : [...filterPreferences.regions, code];
+        setFilterPreferences({ ...filterPreferences, regions });
+    });
+    watchlistSelect.addEventListener('change', () => {
+        setFilterPreferences({ ...filterPreferences, activeWatchlistId: watchlistSelect.value || null });
+    });
+    editWatchlistsBtn.addEventListener('click', openSettings);
+    openSettingsBtn.addEventListener('click', openSettings);
+    addWatchlistBtn.addEventListener('click', () => addWatchlistRow());
+    addAlertBtn.addEventListener('click', () => addAlertRow());
+    enableNotificationsBtn.addEventListener('click', async () => {
+        await Notification.requestPermission();
+        updateNotificationStatus();
+    });
+    settingsDialog.addEventListener('close', () => {
+        if (settingsDialog.returnValue === 'save') saveSettings();
+    });
+
+    // Saved layouts & links
+    layoutSelect.addEventListener('change', () => {
+        const layout = layouts.find(l => l.id === layoutSelect.value);
+        const state = layout && decodeViewState(new URLSearchParams(layout.query));
+        if (!layout || !state) return;
+        applyViewState(state, false);
+        announce(`Layout: ${layout.name}`);
+    });
+    saveLayoutBtn.addEventListener('click', () => {
+        layoutNameInput.value = layouts.find(l => l.id === layoutSelect.value)?.name ?? '';
+        layoutDialog.returnValue = '';
+        layoutDialog.showModal();
+    });
+    layoutDialog.addEventListener('close', () => {
+        if (layoutDialog.returnValue === 'save') saveLayout(layoutNameInput.value.trim());
+    });
+    copyLinkBtn.addEventListener('click', copyViewLink);
     
     // Past events accordion
     pastEventsToggle.addEventListener('click', () => {
-        const isExpanded = pastEventsToggle.getAttribute('aria-expanded') === 'true';
-        pastEventsToggle.setAttribute('aria-expanded', String(!isExpanded));
-        pastEventsContent.classList.toggle('expanded');
+        setPastExpanded(pastEventsToggle.getAttribute('aria-expanded') !== 'true');
     });
     
     // Day group accordion for upcoming events
     const handleDayToggle = (e: Event) => {
         const header = (e.target as HTMLElement).closest('.day-header');
-        if (header) {
-            const isExpanded = header.getAttribute('aria-expanded') === 'true';
-            header.setAttribute('aria-expanded', String(!isExpanded));
-            header.parentElement?.classList.toggle('collapsed');
-        }
+        if (header) toggleDayGroup(header);
     };
     macroEventsContainer.addEventListener('click', handleDayToggle);
     corpEventsContainer.addEventListener('click', handleDayToggle);
 
-    // --- Tooltip Logic (via Event Delegation) ---
-    mainContent.addEventListener('mouseover', (e) => {
+    // Keyboard: day headers act as buttons, and cards share one Tab stop.
+    listView.addEventListener('keydown', (e) => {
         const target = e.target as HTMLElement;
-        if (target.classList.contains('event-name') && target.dataset.description) {
-            tooltip.innerHTML = target.dataset.description;
-            tooltip.style.display = 'block';
-            tooltip.setAttribute('aria-hidden', 'false');
+        if (target.matches('.day-header[role="button"]') && (e.key === 'Enter' || e.key === ' ')) {
+            e.preventDefault();
+            toggleDayGroup(target);
+        } else if (target.classList.contains('event-card')) {
+            handleCardKeydown(e, target);
+        }
+    });
+    listView.addEventListener('focusin', (e) => {
+        const card = (e.target as HTMLElement).closest<HTMLElement>('.event-card');
+        if (!card) return;
+        focusedCardKey = card.dataset.eventKey ?? null;
+        if (e.target === card) showTooltip(card.querySelector<HTMLElement>('.event-name'));
+    });
+    listView.addEventListener('focusout', () => hideTooltip());
+
+    // Shortcuts, unless typing or a dialog is open
+    document.addEventListener('keydown', (e) => {
+        if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+            e.preventDefault();
+            if (!commandPalette.open) openPalette();
+            return;
+        }
+        if (e.key === 'Escape') hideTooltip();
+        if (e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+        if (document.querySelector('dialog[open]')) return;
+        const shortcut = SHORTCUTS.find(s => s.key === e.key);
+        if (!shortcut) return;
+        e.preventDefault();
+        shortcut.run();
+    });
+
+    // Command palette
+    openPaletteBtn.addEventListener('click', openPalette);
+    paletteInput.addEventListener('input', renderPaletteResults);
+    paletteInput.addEventListener('keydown', (e) => {
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+            e.preventDefault();
+            if (paletteMatches.length === 0) return;
+            const step = e.key === 'ArrowDown' ? 1 : -1;
+            paletteIndex = (paletteIndex + step + paletteMatches.length) % paletteMatches.length;
+            highlightPaletteOption();
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            choosePaletteEntry(paletteIndex);
         }
     });
+    commandPalette.addEventListener('click', (e) => {
+        if (e.target === commandPalette) commandPalette.close();
+    });
+
+    // Per-section retry buttons
+    contentView.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.section-retry');
+        const query = rangeQueries().find(q => datasetKey(q) === button?.dataset.dataset);
+        if (query) loadDataset(query);
+    });
+
+    // Per-card "add to calendar"
+    contentView.addEventListener('click', (e) => {
+        const button = (e.target as HTMLElement).closest<HTMLElement>('.add-to-calendar');
+        if (button?.dataset.eventKey) exportSingleEvent(button.dataset.eventKey);
+    });
+
+    // Event detail drawer: clicking a card opens it, except on the card's own
+    // controls (the name is one too, for assistive technology).
+    contentView.addEventListener('click', (e) => {
+        const target = e.target as HTMLElement;
+        const card = target.closest<HTMLElement>('.event-card');
+        if (!card?.dataset.eventKey) return;
+        if (target.closest('button, a') && !target.closest('.event-open')) return;
+        openEventDrawer(card.dataset.eventKey);
+    });
+    closeDrawerBtn.addEventListener('click', () => eventDrawer.close());
+    // A click on the backdrop lands on the dialog itself.
+    eventDrawer.addEventListener('click', (e) => {
+        if (e.target === eventDrawer) eventDrawer.close();
+    });
+    eventDrawer.addEventListener('close', () => {
+        selectedEventKey = null;
+        syncUrl();
+    });
+
+    // --- Tooltip Logic (via Event Delegation) ---
+    // Shown on hover, and under the name while a card has keyboard focus.
+    mainContent.addEventListener('mouseover', (e) => {
+        const target = (e.target as HTMLElement).closest<HTMLElement>('.event-name');
+        if (target) showTooltip(target);
+    });
     
     mainContent.addEventListener('mousemove', (e) => {
         if (tooltip.style.display === 'block') {
-            const x = e.clientX;
-            const y = e.clientY;
-    
-            tooltip.style.left = `${x + 15}px`;
-            tooltip.style.top = `${y + 15}px`;
-    
-            const rect = tooltip.getBoundingClientRect();
-            if (rect.right > window.innerWidth) {
-                tooltip.style.left = `${x - rect.width - 15}px`;
-            }
-            if (rect.bottom > window.innerHeight) {
-                tooltip.style.top = `${y - rect.height - 15}px`;
-            }
+            positionTooltip(e.clientX + 15, e.clientY + 15);
         }
     });
     
     mainContent.addEventListener('mouseout', (e) => {
-        const target = e.target as HTMLElement;
-        if (target.classList.contains('event-name')) {
-            tooltip.style.display = 'none';
-            tooltip.setAttribute('aria-hidden', 'true');
+        const target = (e.target as HTMLElement).closest('.event-name');
+        if (target && !target.contains(e.relatedTarget as Node | null)) {
+            hideTooltip();
         }
     });
 
@@ -443,21 +1522,259 @@ function setupEventListeners() {
 
     subscribeForm.addEventListener('submit', (e) => {
         e.preventDefault();
+        submitSubscription();
+    });
+}
+
+// --- SUBSCRIPTION ---
+/** Signs the address up with the proxy, which mails a link to confirm it. */
+async function submitSubscription() {
+    const button = subscribeForm.querySelector('button')!;
+    button.disabled = true;
+    subscribeError.hidden = true;
+    try {
+        const response = await fetch(`${config.httpEndpoint.replace(/\/+$/, '')}/subscriptions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', Accept: 'application/json' },
+            body: JSON.stringify({ email: emailInput.value }),
+        });
+        if (!response.ok) {
+            const body = await response.json().catch(() => null);
+            throw new Error(body?.error ?? `Subscription request failed (HTTP ${response.status})`);
+        }
         subscribeInnerContent.style.display = 'none';
         subscribeSuccess.style.display = 'block';
-    });
+    } catch (error) {
+        console.error('Could not subscribe:', error);
+        subscribeError.textContent = error instanceof TypeError
+            ? 'Could not reach the server. Try again in a moment.'
+            : error instanceof Error ? error.message : String(error);
+        subscribeError.hidden = false;
+    } finally {
+        button.disabled = false;
+    }
 }
 
-function setTimeFilter(filter: '24h' | '7d') {
-    activeTimeFilter = filter;
-    
-    filter24hBtn.classList.toggle('active', filter === '24h');
-    filter7dBtn.classList.toggle('active', filter === '7d');
-    
-    filter24hBtn.setAttribute('aria-selected', (filter === '24h').toString());
-    filter7dBtn.setAttribute('aria-selected', (filter === '7d').toString());
+function setTimeRange(range: TimeRange) {
+    timeRange = range;
+    if (!linkedView) saveTimeRange(range);
+    const resolved = currentRange();
+    calendarAnchor = zonedDateKey(resolved.start, displayTimeZone());
+    // A range that is over has nothing upcoming, so open the past section.
+    if (!resolved.upcoming) setPastExpanded(true);
+    renderRangeControls();
+    renderEvents();
+    syncUrl();
+    // A wider range may need more days than the data sets cover.
+    refreshDatasets();
+}
+
+// --- SHAREABLE VIEW & LAYOUTS ---
+function setPastExpanded(expanded: boolean) {
+    pastEventsToggle.setAttribute('aria-expanded', String(expanded));
+    pastEventsContent.classList.toggle('expanded', expanded);
+    updateRovingFocus();
+    syncUrl();
+}
+
+function currentViewState(): ViewState {
+    const watchlist = activeWatchlist(filterPreferences);
+    const today = zonedDateKey(new Date(), displayTimeZone());
+    return {
+        range: timeRange,
+        view: activeView,
+        impacts: filterPreferences.impacts,
+        regions: filterPreferences.regions,
+        watchlist: watchlist ? { name: watchlist.name, tickers: watchlist.tickers } : null,
+        pastExpanded: pastEventsToggle.getAttribute('aria-expanded') === 'true',
+        // Days that have gone by no longer need remembering.
+        collapsedDays: [...collapsedDays].filter(day => day >= today).sort(),
+        selectedEvent: eventDrawer.open ? selectedEventKey : pendingEventKey,
+    };
+}
+
+/** The saved layout the view matches, if any. */
+function matchingLayout(state: ViewState): SavedLayout | undefined {
+    const query = layoutQuery(state);
+    return layouts.find(l => l.query === query);
+}
+
+/**
+ * Writes the view into the address bar, replacing the history entry rather
+ * than adding one, so the address can be shared as it is at any time.
+ */
+function syncUrl() {
+    const state = currentViewState();
+    history.replaceState(history.state, '', viewStateUrl(state, location.href));
+    layoutSelect.value = matchingLayout(state)?.id ?? '';
+}
+
+function renderLayoutControls() {
+    layoutSelect.innerHTML = '';
+    layoutSelect.add(new Option(layouts.length > 0 ? 'Saved layouts' : 'No saved layouts', ''));
+    for (const layout of layouts) {
+        layoutSelect.add(new Option(layout.name, layout.id));
+    }
+    layoutSelect.disabled = layouts.length === 0;
+    layoutSelect.value = matchingLayout(currentViewState())?.id ?? '';
+}
+
+/**
+ * Switches to the view a link or saved layout describes. A link shows
+ * someone else's view for this visit only: the reader's saved range and
+ * filters are left as they were, also when they change the view further,
+ * and a watchlist they lack is not added to theirs. A layout is the reader's
+ * own, so it is saved like any other change.
+ */
+function applyViewState(state: ViewState, fromLink: boolean) {
+    linkedView = fromLink;
+    timeRange = state.range;
+    filterPreferences = applySharedFilters(filterPreferences, state);
+    if (!linkedView) {
+        saveTimeRange(timeRange);
+        saveFilterPreferences(preferencesToSave(filterPreferences));
+    }
+    collapsedDays = new Set(state.collapsedDays);
+    pendingEventKey = state.selectedEvent;
+
+    renderFilterControls();
+    renderRangeControls();
+    setPastExpanded(state.pastExpanded);
+    setView(state.view);
+    // Fetch what the range needs first, so a linked event is only given up on once loading is over.
+    refreshDatasets();
+    openPendingEvent();
+}
+
+/**
+ * Opens the event a link asked for once it has loaded, or drops it when no
+ * data set is still loading and it was not among them.
+ */
+function openPendingEvent() {
+    const key = pendingEventKey;
+    if (!key) return;
+    if (allEvents.some(e => eventIdentity(e) === key)) {
+        pendingEventKey = null;
+        openEventDrawer(key);
+    } else if (!ALL_QUERIES.some(query => datasetStatus[datasetKey(query)]?.state === 'loading')) {
+        pendingEventKey = null;
+        syncUrl();
+        announce('The linked event is no longer listed');
+    }
+}
+
+async function copyViewLink() {
+    try {
+        await navigator.clipboard.writeText(viewStateUrl(currentViewState(), location.href));
+        copyLinkBtn.textContent = 'Link copied';
+        setTimeout(() => { copyLinkBtn.textContent = 'Copy link'; }, 2000);
+        announce('Link to this view copied');
+    } catch (error) {
+        console.warn('Could not copy the link:', error);
+        announce('Could not copy the link. The address bar holds the same link.');
+    }
+}
+
+/** Saves the view under `name`, replacing a layout of the same name. */
+function saveLayout(name: string) {
+    if (!name) return;
+    const existing = layouts.find(l => l.name.toLowerCase() === name.toLowerCase());
+    const layout: SavedLayout = { id: existing?.id ?? crypto.randomUUID(), name, query: layoutQuery(currentViewState()) };
+    layouts = existing ? layouts.map(l => l === existing ? layout : l) : [...layouts, layout];
+    saveLayouts(layouts);
+    renderLayoutControls();
+    announce(`Layout saved: ${name}`);
+}
+
+// --- DATA LOADING ---
+/** The four queries, each reaching far enough to cover the selected range. */
+function rangeQueries(): EventQuery[] {
+    const days = requiredWindowDays(currentRange());
+    return ALL_QUERIES.map(query => ({ ...query, days: days[query.window] }));
+}
+
+/**
+ * Rebuilds `allEvents` from the data sets, merging duplicates across them (see
+ * reconcile.ts), and records what changed.
+ */
+function applyDatasets() {
+    const previous = allEvents;
+    const sources: SourcedEvents[] = (Object.entries(datasets) as [DatasetKey, CachedDataset][]).map(([key, dataset]) => ({
+        source: key,
+        window: key.split('/')[1] as EventWindow,
+        fetchedAt: dataset.savedAt,
+        events: dataset.events,
+    }));
+    ({ events: allEvents, merges: mergeLog } = reconcileEvents(sources, previous));
+    renderFilterControls();
+    archiveEvents(allEvents).catch(error => console.warn('Could not archive events:', error));
+
+    if (previous.length === 0) return;
+    const changes = diffEvents(previous, allEvents);
+    const detectedAt = Date.now();
+    for (const change of changes) {
+        recentChanges.set(change.key, { ...change, detectedAt });
+    }
+    if (changes.length > 0) {
+        announce(`${changes.length} event${changes.length === 1 ? ' was' : 's were'} updated`);
+        // Clear the highlights once they have had their moment.
+        setTimeout(renderEvents, CHANGE_HIGHLIGHT_MS + 1000);
+    }
+}
 
+function setDatasetStatus(key: DatasetKey, status: DatasetStatus) {
+    datasetStatus[key] = status;
     renderEvents();
+    updateDataStatus();
+}
+
+/**
+ * Fetches one data set, retrying transient failures with backoff, and caches
+ * the result. Failures are recorded in the section's status rather than
+ * thrown, so each section succeeds or fails on its own.
+ */
+async function loadDataset(query: EventQuery) {
+    const key = datasetKey(query);
+    if (datasetStatus[key]?.state === 'loading') return;
+    setDatasetStatus(key, { state: 'loading' });
+    const isFirstLoad = !datasets[key];
+
+    try {
+        const events = await withRetry(() => provider.fetchEvents(query), {
+            maxAttempts: MAX_FETCH_ATTEMPTS,
+            onRetry: (attempt, delayMs, error) => {
+                console.warn(`Retrying ${key} in ${delayMs}ms (attempt ${attempt}):`, error);
+                setDatasetStatus(key, { state: 'loading', attempt });
+            },
+        });
+        datasets[key] = writeCachedDataset(provider.name, query, events);
+        applyDatasets();
+        setDatasetStatus(key, { state: 'ready' });
+        if (isFirstLoad) announce(`Loaded ${events.length} ${DATASET_LABELS[key]}`);
+        openPendingEvent();
+
+        // The range may have been widened while this request was in flight.
+        const wanted = rangeQueries().find(q => datasetKey(q) === key)!;
+        if (!coversQuery(datasets[key], wanted)) loadDataset(wanted);
+    } catch (error) {
+        console.error(`Failed to fetch ${key} events:`, error);
+        setDatasetStatus(key, { state: 'error', message: error instanceof Error ? error.message : String(error) });
+        announce(`Could not load ${DATASET_LABELS[key]}`);
+        openPendingEvent();
+    }
+}
+
+/**
+ * Fetches data sets independently: every one of them when `force` is set
+ * (the periodic refresh), otherwise only those missing, past their TTL or
+ * not reaching far enough for the selected range.
+ */
+async function refreshDatasets(force: boolean = false) {
+    const queries = rangeQueries().filter(query => {
+        const entry = datasets[datasetKey(query)];
+        return force || !entry || isDatasetStale(entry, query) || !coversQuery(entry, query);
+    });
+    await Promise.all(queries.map(loadDataset));
 }
 
 // --- INITIALIZATION ---
@@ -465,45 +1782,47 @@ async function initializeApp() {
     setupEventListeners();
     setInterval(updateHeaderClock, 1000);
     setInterval(updateCountdowns, 1000);
+    setInterval(updateDataStatus, 30 * 1000);
+    setInterval(checkAlerts, 10 * 1000);
     updateHeaderClock();
 
-    try {
-        const futureMacroPrompt = `List major global macroeconomic events for the next 7 days. For each event, provide: Date (YYYY-MM-DD), Time in UTC (HH:MM), Impact (High, Medium, or Low), Event Name, Brief Description, Forecast, Previous, and Source. Format each on a new line: YYYY-MM-DD::HH:MM::Impact::Event Name::Description::Forecast::Previous::Source. Use "N/A" for the time if it's an all-day event or unknown. Use "N/A" for other unknown values.`;
-        const pastMacroPrompt = `List major global macroeconomic events from the past 3 days. For each event, provide: Date (YYYY-MM-DD), Time in UTC (HH:MM), Impact (High, Medium, or Low), Event Name, Brief Description, Actual, Forecast, Previous, Sentiment (Good, Bad, or Neutral, based on Actual vs Forecast), and Source. Format each on a new line: YYYY-MM-DD::HH:MM::Impact::Event Name::Description::Actual::Forecast::Previous::Sentiment::Source. Use "N/A" for the time if it was an all-day event or unknown. Use "N/A" for other unknown values.`;
-        const futureEarningsPrompt = `List the most anticipated corporate earnings for the next 7 days. Provide: date (YYYY-MM-DD), announcement time in UTC (HH:MM) OR the period ("pre-market", "post-market"), company name (TICKER), description of expectations, information type (e.g., "Q2 Earnings"), a key analyst prediction (e.g., "EPS: $1.25"), and the source. Format each: YYYY-MM-DD::HH:MM or Period::COMPANY (TICKER)::DESCRIPTION::INFO_TYPE::PREDICTION::SOURCE. Use "N/A" if a value is not available.`;
-        const pastEarningsPrompt = `List significant corporate earnings from the past 3 days. Provide: date (YYYY-MM-DD), announcement time in UTC (HH:MM) OR the period ("pre-market", "post-market"), company name (TICKER), results summary, information type, the actual result (e.g., "EPS: $1.30"), analyst prediction, and the source. Format each: YYYY-MM-DD::HH:MM or Period::COMPANY (TICKER)::SUMMARY::INFO_TYPE::ACTUAL::PREDICTION::SOURCE. Use "N/A" if a value is not available.`;
-
-        const [
-            futureMacroResponse, 
-            futureEarningsResponse,
-            pastMacroResponse,
-            pastEarningsResponse
-        ] = await Promise.all([
-            fetchFinancialData(futureMacroPrompt),
-            fetchFinancialData(futureEarningsPrompt),
-            fetchFinancialData(pastMacroPrompt),
-            fetchFinancialData(pastEarningsPrompt)
-        ]);
-
-        const futureMacroEvents = parseApiResponse(futureMacroResponse, 'macro', false);
-        const futureCorpEarnings = parseApiResponse(futureEarningsResponse, 'corp', false);
-        const pastMacroEvents = parseApiResponse(pastMacroResponse, 'macro', true);
-        const pastCorpEarnings = parseApiResponse(pastEarningsResponse, 'corp', true);
-        
-        allEvents = [...futureMacroEvents, ...futureCorpEarnings, ...pastMacroEvents, ...pastCorpEarnings];
-
+    // Paint whatever is cached straight away, then revalidate in the background.
+    for (const query of ALL_QUERIES) {
+        const key = datasetKey(query);
+        const entry = readCachedDataset(provider.name, query);
+        if (entry) {
+            datasets[key] = entry;
+            datasetStatus[key] = { state: 'ready' };
+        }
+    }
+    applyDatasets();
+    renderLayoutControls();
+    // A link opens the view it describes; a plain visit picks up where the user left off.
+    const linked = decodeViewState(new URLSearchParams(location.search));
+    if (linked) {
+        applyViewState(linked, true);
+    } else {
+        renderRangeControls();
+        if (!currentRange().upcoming) setPastExpanded(true);
         renderEvents();
-        
-        loader.style.display = 'none';
-        contentView.style.display = 'block';
-        columnHeaders.style.display = 'grid';
-
+        syncUrl();
+    }
+    columnHeaders.style.display = 'grid';
+    contentView.style.display = 'block';
+    updateDataStatus();
 
-    } catch (error) {
-        console.error("Failed to fetch financial data:", error);
-        loader.style.display = 'none';
-        errorView.style.display = 'block';
+    if (config.refreshIntervalMs > 0) {
+        setInterval(() => {
+            // No point spending quota on a tab nobody is looking at; it
+            // catches up when it becomes visible again.
+            if (!document.hidden) refreshDatasets(true);
+        }, config.refreshIntervalMs);
+        document.addEventListener('visibilitychange', () => {
+            if (!document.hidden) refreshDatasets();
+        });
     }
+
+    await refreshDatasets();
 }
 
 // Start the application
@@ -0,0 +1,269 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AnnouncementPeriod } from './types';
+import { dateKeyWeekday, shiftDateKey, zonedTimeToUtc } from './timezones';
+
+// --- EXCHANGE TRADING CALENDARS ---
+// Earnings that only give "Pre-market" or "Post-market" are placed relative
+// to the session of the company's exchange on that day, in the exchange's own
+// time zone, so daylight saving time is handled by the zone rules, and
+// early closes by the exchange's holiday calendar (see HOLIDAYS below).
+export interface Exchange {
+  code: string;
+  name: string;
+  timeZone: string;
+  open: string;   // Regular session, HH:MM local time
+  close: string;
+  // Extended-hours sessions where the exchange has them; otherwise the two
+  // hours either side of the regular session are used.
+  preMarket?: [string, string];
+  postMarket?: [string, string];
+  holidays?: (year: number) => HolidayCalendar; // Where the rules are known
+}
+
+export interface HolidayCalendar {
+  closed: string[];                    // YYYY-MM-DD, weekdays only
+  earlyCloses: Record<string, string>; // YYYY-MM-DD -> close, HH:MM local time
+}
+
+// One trading day of an exchange.
+export interface TradingDay {
+  open: string;    // HH:MM local time
+  close: string;   // Earlier than the regular close on an early-close day
+  closed: boolean; // Weekend or holiday
+  earlyClose: boolean;
+}
+
+const US: Exchange = {
+    code: 'US', name: 'NYSE / Nasdaq', timeZone: 'America/New_York', open: '09:30', close: '16:00',
+    preMarket: ['04:00', '09:30'], postMarket: ['16:00', '20:00'], holidays: usHolidays,
+};
+
+export const EXCHANGES: Record<string, Exchange> = {
+    US,
+    TSX: { code: 'TSX', name: 'Toronto Stock Exchange', timeZone: 'America/Toronto', open: '09:30', close: '16:00', holidays: canadaHolidays },
+    LSE: { code: 'LSE', name: 'London Stock Exchange', timeZone: 'Europe/London', open: '08:00', close: '16:30', holidays: ukHolidays },
+    XETRA: { code: 'XETRA', name: 'Xetra', timeZone: 'Europe/Berlin', open: '09:00', close: '17:30', holidays: xetraHolidays },
+    EPA: { code: 'EPA', name: 'Euronext Paris', timeZone: 'Europe/Paris', open: '09:00', close: '17:30', holidays: euronextHolidays },
+    AMS: { code: 'AMS', name: 'Euronext Amsterdam', timeZone: 'Europe/Amsterdam', open: '09:00', close: '17:30', holidays: euronextHolidays },
+    SIX: { code: 'SIX', name: 'SIX Swiss Exchange', timeZone: 'Europe/Zurich', open: '09:00', close: '17:30', holidays: swissHolidays },
+    TSE: { code: 'TSE', name: 'Tokyo Stock Exchange', timeZone: 'Asia/Tokyo', open: '09:00', close: '15:30' },
+    HKEX: { code: 'HKEX', name: 'Hong Kong Exchange', timeZone: 'Asia/Hong_Kong', open: '09:30', close: '16:00' },
+    SSE: { code: 'SSE', name: 'Shanghai Stock Exchange', timeZone: 'Asia/Shanghai', open: '09:30', close: '15:00' },
+    SZSE: { code: 'SZSE', name: 'Shenzhen Stock Exchange', timeZone: 'Asia/Shanghai', open: '09:30', close: '15:00' },
+    KRX: { code: 'KRX', name: 'Korea Exchange', timeZone: 'Asia/Seoul', open: '09:00', close: '15:30' },
+    NSE: { code: 'NSE', name: 'National Stock Exchange of India', timeZone: 'Asia/Kolkata', open: '09:15', close: '15:30' },
+    ASX: { code: 'ASX', name: 'Australian Securities Exchange', timeZone: 'Australia/Sydney', open: '10:00', close: '16:00' },
+};
+
+// Yahoo-style ticker suffixes ("7203.T") and Google-style prefixes ("TYO:7203").
+const SUFFIXES: Record<string, string> = {
+    TO: 'TSX', L: 'LSE', DE: 'XETRA', F: 'XETRA', PA: 'EPA', AS: 'AMS', SW: 'SIX', T: 'TSE', HK: 'HKEX',
+    SS: 'SSE', SZ: 'SZSE', KS: 'KRX', KQ: 'KRX', NS: 'NSE', BO: 'NSE', AX: 'ASX',
+};
+const PREFIXES: Record<string, string> = {
+    NYSE: 'US', NASDAQ: 'US', AMEX: 'US', TSE: 'TSX', LON: 'LSE', ETR: 'XETRA', FRA: 'XETRA', EPA: 'EPA',
+    AMS: 'AMS', SWX: 'SIX', TYO: 'TSE', HKG: 'HKEX', SHA: 'SSE', SHE: 'SZSE', KRX: 'KRX', NSE: 'NSE',
+    BOM: 'NSE', ASX: 'ASX',
+};
+
+/** The exchange a ticker trades on, judged by its suffix or prefix; US markets otherwise. */
+export function exchangeForTicker(ticker: string | undefined): Exchange {
+    if (!ticker) return US;
+    const upper = ticker.toUpperCase();
+    const prefix = upper.match(/^([A-Z]+):/)?.[1];
+    if (prefix && PREFIXES[prefix]) return EXCHANGES[PREFIXES[prefix]];
+    // Share classes such as "BRK.B" are not suffixes, so only known codes count.
+    const suffix = upper.match(/\.([A-Z]{1,2})$/)?.[1];
+    if (suffix && SUFFIXES[suffix]) return EXCHANGES[SUFFIXES[suffix]];
+    return US;
+}
+
+// --- HOLIDAYS ---
+// Holidays and early closes follow each exchange's published rules (fixed
+// dates moved off weekends, "third Monday" days and Easter), so they need no
+// yearly update. Exchanges whose holidays follow lunar or announced dates
+// have no calendar here and keep their regular hours every weekday.
+const dateKey = (year: number, month: number, day: number) => new Date(Date.UTC(year, month - 1, day)).toISOString().slice(0, 10);
+const isWeekend = (key: string) => dateKeyWeekday(key) === 0 || dateKeyWeekday(key) === 6;
+
+/** The `n`th `weekday` (0 = Sunday) of a month, or the last one for n = -1. */
+function nthWeekday(year: number, month: number, weekday: number, n: number): string {
+    if (n > 0) {
+        const first = dateKey(year, month, 1);
+        return shiftDateKey(first, (weekday - dateKeyWeekday(first) + 7) % 7 + (n - 1) * 7);
+    }
+    const last = dateKey(year, month + 1, 0);
+    return shiftDateKey(last, -((dateKeyWeekday(last) - weekday + 7) % 7));
+}
+
+/** Easter Sunday (Gregorian calendar, Meeus/Jones/Butcher algorithm). */
+function easterSunday(year: number): string {
+    const a = year % 19, b = Math.floor(year / 100), c = year % 100;
+    const d = Math.floor(b / 4), e = b % 4, f = Math.floor((b + 8) / 25), g = Math.floor((b - f + 1) / 3);
+    const h = (19 * a + b - d - g + 15) % 30, i = Math.floor(c / 4), k = c % 4;
+    const l = (32 + 2 * e + 2 * i - h - k) % 7, m = Math.floor((a + 11 * h + 22 * l) / 451);
+    const n = h + l - 7 * m + 114;
+    return dateKey(year, Math.floor(n / 31), (n % 31) + 1);
+}
+
+/** The first `count` weekdays on or after `key`, e.g. Christmas and Boxing Day moved off a weekend. */
+function weekdaysFrom(key: string, count: number): string[] {
+    const days: string[] = [];
+    for (let day = key; days.length < count; day = shiftDateKey(day, 1)) {
+        if (!isWeekend(day)) days.push(day);
+    }
+    return days;
+}
+
+/** A US holiday on a Saturday is taken on the Friday before, one on a Sunday on the Monday after. */
+function usObserved(key: string): string {
+    const weekday = dateKeyWeekday(key);
+    return weekday === 6 ? shiftDateKey(key, -1) : weekday === 0 ? shiftDateKey(key, 1) : key;
+}
+
+/** A calendar from its closed days, with early closes on the half days the exchange is open. */
+function holidayCalendar(closed: string[], halfDays?: { days: string[]; close: string }): HolidayCalendar {
+    const weekdays = closed.filter(day => !isWeekend(day));
+    const earlyCloses: Record<string, string> = {};
+    for (const day of halfDays?.days ?? []) {
+        if (halfDays && !isWeekend(day) && !weekdays.includes(day)) earlyCloses[day] = halfDays.close;
+    }
+    return { closed: weekdays, earlyCloses };
+}
+
+// NYSE and Nasdaq. A New Year's Day on a Saturday is not made up on the Friday before.
+function usHolidays(year: number): HolidayCalendar {
+    const newYear = dateKey(year, 1, 1);
+    const thanksgiving = nthWeekday(year, 11, 4, 4);
+    return holidayCalendar([
+        dateKeyWeekday(newYear) === 0 ? shiftDateKey(newYear, 1) : newYear,
+        nthWeekday(year, 1, 1, 3),                  // Martin Luther King Jr. Day
+        nthWeekday(year, 2, 1, 3),                  // Washington's Birthday
+        shiftDateKey(easterSunday(year), -2),       // Good Friday
+        nthWeekday(year, 5, 1, -1),                 // Memorial Day
+        usObserved(dateKey(year, 6, 19)),           // Juneteenth
+        usObserved(dateKey(year, 7, 4)),            // Independence Day
+        nthWeekday(year, 9, 1, 1),                  // Labor Day
+        thanksgiving,
+        usObserved(dateKey(year, 12, 25)),
+    ], { days: [dateKey(year, 7, 3), shiftDateKey(thanksgiving, 1), dateKey(year, 12, 24)], close: '13:00' });
+}
+
+function canadaHolidays(year: number): HolidayCalendar {
+    return holidayCalendar([
+        ...weekdaysFrom(dateKey(year, 1, 1), 1),
+        nthWeekday(year, 2, 1, 3),                  // Family Day
+        shiftDateKey(easterSunday(year), -2),       // Good Friday
+        shiftDateKey(nthWeekday(year, 5, 1, -1), -7), // Victoria Day, the Monday before May 25
+        ...weekdaysFrom(dateKey(year, 7, 1), 1),    // Canada Day
+        nthWeekday(year, 8, 1, 1),                  // Civic Holiday
+        nthWeekday(year, 9, 1, 1),                  // Labour Day
+        nthWeekday(year, 10, 1, 2),                 // Thanksgiving
+        ...weekdaysFrom(dateKey(year, 12, 25), 2),  // Christmas and Boxing Day
+    ], { days: [dateKey(year, 12, 24)], close: '13:00' });
+}
+
+function ukHolidays(year: number): HolidayCalendar {
+    const easter = easterSunday(year);
+    return holidayCalendar([
+        ...weekdaysFrom(dateKey(year, 1, 1), 1),
+        shiftDateKey(easter, -2),
+        shiftDateKey(easter, 1),
+        nthWeekday(year, 5, 1, 1),                  // Early May bank holiday
+        nthWeekday(year, 5, 1, -1),                 // Spring bank holiday
+        nthWeekday(year, 8, 1, -1),                 // Summer bank holiday
+        ...weekdaysFrom(dateKey(year, 12, 25), 2),  // Christmas and Boxing Day
+    ], { days: [dateKey(year, 12, 24), dateKey(year, 12, 31)], close: '12:30' });
+}
+
+function xetraHolidays(year: number): HolidayCalendar {
+    const easter = easterSunday(year);
+    return holidayCalendar([
+        dateKey(year, 1, 1), shiftDateKey(easter, -2), shiftDateKey(easter, 1), dateKey(year, 5, 1),
+        dateKey(year, 12, 24), dateKey(year, 12, 25), dateKey(year, 12, 26), dateKey(year, 12, 31),
+    ]);
+}
+
+function euronextHolidays(year: number): HolidayCalendar {
+    const easter = easterSunday(year);
+    return holidayCalendar([
+        dateKey(year, 1, 1), shiftDateKey(easter, -2), shiftDateKey(easter, 1), dateKey(year, 5, 1),
+        dateKey(year, 12, 25), dateKey(year, 12, 26),
+    ], { days: [dateKey(year, 12, 24), dateKey(year, 12, 31)], close: '14:05' });
+}
+
+function swissHolidays(year: number): HolidayCalendar {
+    const easter = easterSunday(year);
+    return holidayCalendar([
+        dateKey(year, 1, 1), dateKey(year, 1, 2), shiftDateKey(easter, -2), shiftDateKey(easter, 1),
+        dateKey(year, 5, 1),
+        shiftDateKey(easter, 39),                   // Ascension Day
+        shiftDateKey(easter, 50),                   // Whit Monday
+        dateKey(year, 8, 1),                        // Swiss National Day
+        dateKey(year, 12, 24), dateKey(year, 12, 25), dateKey(year, 12, 26), dateKey(year, 12, 31),
+    ]);
+}
+
+const calendars = new Map<string, HolidayCalendar>();
+
+/**
+ * The session of `exchange` on `date` (YYYY-MM-DD, exchange time). A weekend
+ * or holiday keeps the regular hours, marked closed, as the best guide to
+ * when a release dated that day lands.
+ */
+export function tradingDay(date: string, exchange: Exchange): TradingDay {
+    const year = Number(date.slice(0, 4));
+    const cacheKey = `${exchange.code}|${year}`;
+    let calendar = calendars.get(cacheKey);
+    if (!calendar && exchange.holidays) {
+        calendar = exchange.holidays(year);
+        calendars.set(cacheKey, calendar);
+    }
+    const earlyClose = calendar?.earlyCloses[date];
+    return {
+        open: exchange.open,
+        close: earlyClose ?? exchange.close,
+        closed: isWeekend(date) || !!calendar?.closed.includes(date),
+        earlyClose: !!earlyClose,
+    };
+}
+
+// --- ANNOUNCEMENT TIMES ---
+const MINUTE_MS = 60 * 1000;
+
+const minutesOf = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+/**
+ * Start and end of the session an announcement period falls in, on `date`
+ * (YYYY-MM-DD, exchange time). After an early close, the post-market session
+ * starts at that close and lasts as long as it usually does.
+ */
+export function announcementWindow(date: string, period: AnnouncementPeriod, exchange: Exchange): [Date, Date] {
+    const day = tradingDay(date, exchange);
+    if (period === 'Pre-market') {
+        const open = zonedTimeToUtc(date, day.open, exchange.timeZone);
+        if (exchange.preMarket) {
+            return [zonedTimeToUtc(date, exchange.preMarket[0], exchange.timeZone), zonedTimeToUtc(date, exchange.preMarket[1], exchange.timeZone)];
+        }
+        return [new Date(open.getTime() - 120 * MINUTE_MS), open];
+    }
+    const close = zonedTimeToUtc(date, day.close, exchange.timeZone);
+    const length = exchange.postMarket ? minutesOf(exchange.postMarket[1]) - minutesOf(exchange.postMarket[0]) : 120;
+    return [close, new Date(close.getTime() + length * MINUTE_MS)];
+}
+
+/**
+ * The moment used to sort and count down to an announcement that only gives
+ * a period: half an hour before the open, or an hour after the close, which
+ * is when such releases typically land.
+ */
+export function announcementTime(date: string, period: AnnouncementPeriod, exchange: Exchange): Date {
+    const day = tradingDay(date, exchange);
+    if (period === 'Pre-market') {
+        return new Date(zonedTimeToUtc(date, day.open, exchange.timeZone).getTime() - 30 * MINUTE_MS);
+    }
+    return new Date(zonedTimeToUtc(date, day.close, exchange.timeZone).getTime() + 60 * MINUTE_MS);
+}
@@ -0,0 +1,72 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from './types';
+import { eventIdentity, extractTicker, seriesKey } from './events';
+
+// --- COMMAND PALETTE ---
+// Ctrl+K lists tickers and indicators to jump to, next to the dashboard's
+// keyboard commands. Matching is plain substring search, best matches first.
+export interface PaletteItem {
+  label: string;
+  detail?: string;
+  keywords: string; // Lower-case text matched against, besides the label
+}
+
+export interface JumpTarget extends PaletteItem {
+  eventKey: string; // Identity of the event to jump to
+}
+
+const MAX_RESULTS = 12;
+
+/**
+ * One target per ticker or indicator: its next release, or the latest one
+ * when none is coming up. Earnings are listed by ticker where there is one.
+ */
+export function jumpTargets(events: FinancialEvent[], now: Date, formatDate: (date: Date) => string): JumpTarget[] {
+    const bySeries = new Map<string, FinancialEvent>();
+    for (const event of events) {
+        const key = seriesKey(event);
+        const current = bySeries.get(key);
+        const upcoming = event.datetime >= now;
+        const better = !current
+            || (upcoming && (current.datetime < now || event.datetime < current.datetime))
+            || (!upcoming && current.datetime < now && event.datetime > current.datetime);
+        if (better) bySeries.set(key, event);
+    }
+
+    return [...bySeries.values()].map(event => {
+        const ticker = event.type === 'corp' ? extractTicker(event.name) : undefined;
+        const region = event.currency ?? event.country;
+        const when = formatDate(event.datetime);
+        return {
+            label: ticker ?? event.name,
+            detail: [ticker ? event.name : region, when].filter(Boolean).join(' · '),
+            keywords: `${event.name} ${region ?? ''}`.toLowerCase(),
+            eventKey: eventIdentity(event),
+        };
+    }).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+/** How well `item` matches `query` (lower-case): 0 is best, null is no match. */
+function matchScore(item: PaletteItem, query: string): number | null {
+    const label = item.label.toLowerCase();
+    if (label.startsWith(query)) return 0;
+    if (label.split(/[^a-z0-9%]+/).some(word => word.startsWith(query))) return 1;
+    if (label.includes(query)) return 2;
+    if (item.keywords.includes(query)) return 3;
+    return null;
+}
+
+/** The items matching `query`, best first; all of them (up to the limit) for an empty query. */
+export function searchPalette<T extends PaletteItem>(items: T[], query: string, limit: number = MAX_RESULTS): T[] {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return items.slice(0, limit);
+    return items
+        .map((item, index) => ({ item, index, score: matchScore(item, needle) }))
+        .filter((match): match is { item: T; index: number; score: number } => match.score !== null)
+        .sort((a, b) => a.score - b.score || a.index - b.index)
+        .slice(0, limit)
+        .map(match => match.item);
+}
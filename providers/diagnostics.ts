@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- REJECTED RECORDS ---
+// Records that fail schema validation are kept here, with the reasons, so a
+// bad response can be inspected after the fact instead of vanishing.
+export interface RejectedRecord {
+  provider: string;
+  query: string;      // A DatasetKey such as "macro/upcoming", or "all"
+  record: unknown;
+  reasons: string[];
+  rejectedAt: Date;
+}
+
+const MAX_REJECTED_RECORDS = 200;
+const rejectedRecords: RejectedRecord[] = [];
+
+export function recordRejection(entry: Omit<RejectedRecord, 'rejectedAt'>) {
+    rejectedRecords.push({ ...entry, rejectedAt: new Date() });
+    if (rejectedRecords.length > MAX_REJECTED_RECORDS) {
+        rejectedRecords.splice(0, rejectedRecords.length - MAX_REJECTED_RECORDS);
+    }
+}
+
+/** Returns the most recent rejections, oldest first. */
+export function getRejectedRecords(): readonly RejectedRecord[] {
+    return rejectedRecords;
+}
+
+export function clearRejectedRecords() {
+    rejectedRecords.length = 0;
+}
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- PROVIDER ERRORS ---
+// HTTP statuses worth retrying: timeouts, rate limits and server errors.
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+/**
+ * A failed provider request. `transient` marks failures that may succeed if
+ * the same request is tried again (rate limits, outages, a malformed model
+ * response), as opposed to ones that will not (bad key, missing fixture).
+ */
+export class ProviderError extends Error {
+    readonly status?: number;
+    readonly transient: boolean;
+
+    constructor(message: string, options: { status?: number; transient?: boolean; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'ProviderError';
+        this.status = options.status;
+        this.transient = options.transient ?? (options.status !== undefined && TRANSIENT_STATUSES.has(options.status));
+    }
+}
+
+/** Builds a ProviderError from a non-OK fetch Response. */
+export function errorFromResponse(what: string, response: Response): ProviderError {
+    return new ProviderError(`${what} failed: ${response.status} ${response.statusText}`, { status: response.status });
+}
+
+/**
+ * Whether an error is worth retrying. Besides ProviderErrors flagged as
+ * transient, a TypeError from fetch means the network request never completed.
+ */
+export function isTransientError(error: unknown): boolean {
+    if (error instanceof ProviderError) return error.transient;
+    return error instanceof TypeError;
+}
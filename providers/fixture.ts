@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from '../types';
+import type { EventProvider, EventQuery } from './types';
+import { windowBounds } from './shared';
+import { eventsFromRecords } from './schema';
+import { errorFromResponse } from './errors';
+
+// --- CSV PARSING ---
+/** Splits CSV text into rows of fields, honouring double-quoted fields. */
+function parseCsvRows(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field !== '' || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+/** Parses CSV with a header row into one record per line, keyed by column name. */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+    const [header, ...rows] = parseCsvRows(text);
+    if (!header) return [];
+    const keys = header.map(h => h.trim());
+    return rows.map(fields => Object.fromEntries(keys.map((key, i) => [key, fields[i] ?? ''])));
+}
+
+// --- PROVIDER ---
+/**
+ * Serves events from a local JSON or CSV fixture. The file is loaded once and
+ * each query is answered by filtering it on type and window, so the dashboard
+ * can run offline against a known data set.
+ */
+export function createFixtureProvider(url: string): EventProvider {
+    let eventsPromise: Promise<FinancialEvent[]> | null = null;
+
+    async function loadEvents(): Promise<FinancialEvent[]> {
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw errorFromResponse('Fixture request', response);
+        }
+        const text = await response.text();
+        const isCsv = url.toLowerCase().endsWith('.csv')
+            || (response.headers.get('content-type') ?? '').includes('text/csv');
+        let records: unknown[];
+        if (isCsv) {
+            records = parseCsvRecords(text);
+        } else {
+            const data = JSON.parse(text);
+            records = Array.isArray(data) ? data : data.events ?? [];
+        }
+        return eventsFromRecords(records, 'fixture');
+    }
+
+    return {
+        name: 'fixture',
+        async fetchEvents(query: EventQuery) {
+            if (!eventsPromise) {
+                eventsPromise = loadEvents();
+                // Let a failed load be retried on the next query.
+                eventsPromise.catch(() => { eventsPromise = null; });
+            }
+            const events = await eventsPromise;
+            const [start, end] = windowBounds(query);
+
+            return events.filter(event => event.type === query.type
+                && event.datetime >= start
+                && (query.window === 'upcoming' ? event.datetime <= end : event.datetime < end));
+        },
+    };
+}
@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventProvider, EventQuery } from './types';
+import { eventsFromRecords } from './schema';
+import { windowDays } from './shared';
+import { errorFromResponse } from './errors';
+
+/**
+ * Fetches events from an HTTP endpoint that answers
+ * `GET <endpoint>/events?type=<macro|corp>&window=<upcoming|past>&days=<n>`
+ * with a JSON array of event records (see `EventRecord` in schema.ts for the
+ * shape).
+ */
+export function createHttpProvider(endpoint: string): EventProvider {
+    const base = endpoint.replace(/\/+$/, '');
+
+    return {
+        name: 'http',
+        async fetchEvents(query: EventQuery) {
+            const { type, window } = query;
+            const params = new URLSearchParams({ type, window, days: String(windowDays(query)) });
+            const response = await fetch(`${base}/events?${params}`, {
+                headers: { Accept: 'application/json' },
+            });
+            if (!response.ok) {
+                throw errorFromResponse('Event request', response);
+            }
+            const data = await response.json();
+            const records: unknown[] = Array.isArray(data) ? data : data.events ?? [];
+            return eventsFromRecords(records, 'http', query);
+        },
+    };
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AppConfig } from '../config';
+import type { EventProvider } from './types';
+import { createFixtureProvider } from './fixture';
+import { createHttpProvider } from './http';
+
+export { ALL_QUERIES, datasetKey, type DatasetKey, type EventProvider, type EventQuery } from './types';
+export { getRejectedRecords, type RejectedRecord } from './diagnostics';
+export { ProviderError, isTransientError } from './errors';
+export { WINDOW_DAYS, windowDays } from './shared';
+
+/**
+ * Builds the event provider selected in the app config. Gemini is only ever
+ * called from the proxy server (see server/), which the browser reaches
+ * through the HTTP provider, so the API key never ships to the client.
+ */
+export function createProvider(config: AppConfig): EventProvider {
+    switch (config.provider) {
+        case 'fixture':
+            return createFixtureProvider(config.fixtureUrl);
+        case 'http':
+        default:
+            return createHttpProvider(config.httpEndpoint);
+    }
+}
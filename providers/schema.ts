@@ -0,0 +1,246 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AnnouncementPeriod, Citation, EventType, FinancialEvent, Impact, Sentiment, Verification } from '../types';
+import { datasetKey, type EventProvider, type EventQuery } from './types';
+import { resolveEventTiming, type EventTiming } from './shared';
+import { recordRejection } from './diagnostics';
+import { extractTicker } from '../events';
+
+// --- RECORD SCHEMA ---
+// The wire format shared by every provider: the Gemini prompts ask for an
+// array of these, and fixtures / HTTP endpoints serve the same shape.
+export interface EventRecord {
+  type?: EventType;
+  date?: string;      // YYYY-MM-DD, or "+N" / "-N" days from today
+  time?: string;      // HH:MM (UTC), "Pre-market", "Post-market" or "N/A"
+  datetime?: string;  // ISO 8601 timestamp, an alternative to date + time
+  hasTime?: boolean;  // Only read together with `datetime`
+  announcementPeriod?: AnnouncementPeriod;
+  impact?: Impact;
+  country?: string | null;
+  currency?: string | null;
+  name: string;
+  description: string;
+  actual?: string | null;
+  forecast?: string | null;
+  previous?: string | null;
+  sentiment?: Sentiment | null;
+  infoType?: string | null;
+  analystPrediction?: string | null;
+  source?: string | null;
+  citations?: Citation[] | null;        // Set by grounded providers
+  verification?: Verification | null;
+}
+
+export type RecordValidation =
+  | { ok: true; event: FinancialEvent }
+  | { ok: false; reasons: string[] };
+
+const IMPACTS: Impact[] = ['High', 'Medium', 'Low'];
+const SENTIMENTS: Sentiment[] = ['good', 'bad', 'neutral'];
+const OPTIONAL_TEXT_FIELDS = ['actual', 'forecast', 'previous', 'infoType', 'analystPrediction', 'source'] as const;
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const RELATIVE_DATE = /^[+-]\d+$/;
+const UTC_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+const COUNTRY_CODE = /^[A-Z]{2}$/;
+const CURRENCY_CODE = /^[A-Z]{3}$/;
+const WEB_URL = /^https?:\/\//i;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/;
+
+/** Treats null, empty strings and "N/A" as a missing value. */
+function isMissing(value: unknown): boolean {
+    return value === undefined || value === null
+        || (typeof value === 'string' && (value.trim() === '' || value.trim().toUpperCase() === 'N/A'));
+}
+
+function isValidCalendarDate(value: string): boolean {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+/**
+ * Checks one record against the schema and converts it to a FinancialEvent.
+ * Every problem found is reported, not just the first. When `expectedType` is
+ * given the record may omit `type`, but must not contradict it.
+ */
+export function validateEventRecord(raw: unknown, expectedType?: EventType, now: Date = new Date()): RecordValidation {
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        return { ok: false, reasons: ['record is not an object'] };
+    }
+    const record = raw as Record<string, unknown>;
+    const reasons: string[] = [];
+
+    const text = (key: string, required: boolean): string | undefined => {
+        const value = record[key];
+        if (isMissing(value)) {
+            if (required) reasons.push(`"${key}" is required`);
+            return undefined;
+        }
+        if (typeof value === 'number') return String(value);
+        if (typeof value !== 'string') {
+            reasons.push(`"${key}" must be a string`);
+            return undefined;
+        }
+        return value.trim();
+    };
+
+    // Type
+    let type = expectedType;
+    const recordType = text('type', !expectedType);
+    if (recordType !== undefined) {
+        if (recordType !== 'macro' && recordType !== 'corp') {
+            reasons.push(`"type" must be "macro" or "corp", got "${recordType}"`);
+        } else if (expectedType && recordType !== expectedType) {
+            reasons.push(`"type" is "${recordType}" but "${expectedType}" was requested`);
+        } else {
+            type = recordType;
+        }
+    }
+
+    // Required text
+    const name = text('name', true);
+    const description = text('description', true);
+
+    // Timing
+    let timing: EventTiming | null = null;
+    const datetime = text('datetime', false);
+    if (datetime !== undefined) {
+        if (!ISO_DATETIME.test(datetime) || isNaN(new Date(datetime).getTime())) {
+            reasons.push(`"datetime" must be an ISO 8601 timestamp, got "${datetime}"`);
+        } else {
+            const period = text('announcementPeriod', false);
+            if (period !== undefined && period !== 'Pre-market' && period !== 'Post-market') {
+                reasons.push(`"announcementPeriod" must be "Pre-market" or "Post-market", got "${period}"`);
+            }
+            timing = {
+                datetime: new Date(datetime),
+                hasTime: record.hasTime !== false && record.hasTime !== 'false',
+                announcementPeriod: period === 'Pre-market' || period === 'Post-market' ? period : undefined,
+            };
+        }
+    } else {
+        let date = text('date', true);
+        const time = text('time', false) ?? 'N/A';
+        if (date !== undefined && RELATIVE_DATE.test(date)) {
+            const shifted = new Date(now);
+            shifted.setUTCDate(now.getUTCDate() + parseInt(date, 10));
+            date = shifted.toISOString().slice(0, 10);
+        }
+        const timeOk = UTC_TIME.test(time) || /^(pre|post)-market$/i.test(time) || time.toUpperCase() === 'N/A';
+        const dateOk = date !== undefined && ISO_DATE.test(date) && isValidCalendarDate(date);
+        if (date !== undefined && !dateOk) {
+            reasons.push(`"date" must be YYYY-MM-DD, got "${date}"`);
+        }
+        if (!timeOk) {
+            reasons.push(`"time" must be HH:MM, "Pre-market", "Post-market" or "N/A", got "${time}"`);
+        }
+        if (dateOk && timeOk) {
+            timing = resolveEventTiming(date, time, name && extractTicker(name));
+        }
+    }
+
+    // Enums
+    let impact: Impact | undefined;
+    const impactText = text('impact', type === 'macro');
+    if (impactText !== undefined) {
+        impact = IMPACTS.find(i => i.toLowerCase() === impactText.toLowerCase());
+        if (!impact) reasons.push(`"impact" must be one of ${IMPACTS.join(', ')}, got "${impactText}"`);
+    }
+
+    let sentiment: Sentiment | undefined;
+    const sentimentText = text('sentiment', false);
+    if (sentimentText !== undefined) {
+        sentiment = SENTIMENTS.find(s => s === sentimentText.toLowerCase());
+        if (!sentiment) reasons.push(`"sentiment" must be one of ${SENTIMENTS.join(', ')}, got "${sentimentText}"`);
+    }
+
+    // Region codes only label and filter an event, so a malformed one is
+    // dropped rather than costing the event.
+    const regionCode = (key: string, pattern: RegExp): string | undefined => {
+        const value = record[key];
+        const code = typeof value === 'string' ? value.trim().toUpperCase() : '';
+        return pattern.test(code) ? code : undefined;
+    };
+    const country = regionCode('country', COUNTRY_CODE);
+    const currency = regionCode('currency', CURRENCY_CODE);
+
+    const optional: Partial<Record<typeof OPTIONAL_TEXT_FIELDS[number], string>> = {};
+    for (const key of OPTIONAL_TEXT_FIELDS) {
+        optional[key] = text(key, false);
+    }
+
+    // Grounding
+    let citations: Citation[] | undefined;
+    if (!isMissing(record.citations)) {
+        if (!Array.isArray(record.citations)) {
+            reasons.push('"citations" must be an array');
+        } else {
+            citations = [];
+            for (const entry of record.citations as unknown[]) {
+                const { url, title } = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+                if (typeof url !== 'string' || !WEB_URL.test(url)) {
+                    reasons.push('every citation must have an http(s) "url"');
+                    break;
+                }
+                citations.push(typeof title === 'string' && title.trim() ? { url, title: title.trim() } : { url });
+            }
+        }
+    }
+
+    let verification: Verification | undefined;
+    if (!isMissing(record.verification)) {
+        const { verified, reason } = (typeof record.verification === 'object' ? record.verification : {}) as Record<string, unknown>;
+        if (typeof verified !== 'boolean') {
+            reasons.push('"verification" must be an object with a boolean "verified"');
+        } else {
+            verification = verified || typeof reason !== 'string' ? { verified } : { verified, reason };
+        }
+    }
+
+    if (reasons.length > 0 || !type || !timing || !name || !description) {
+        return { ok: false, reasons: reasons.length > 0 ? reasons : ['record is incomplete'] };
+    }
+
+    return {
+        ok: true,
+        event: {
+            ...timing,
+            name,
+            description,
+            type,
+            impact,
+            sentiment,
+            country,
+            currency,
+            ...optional,
+            citations,
+            verification,
+        },
+    };
+}
+
+/**
+ * Validates a batch of records, either for one provider query or (without a
+ * query) a mixed set such as a whole fixture. Valid records become events; the
+ * rest are logged to the rejected-records store.
+ */
+export function eventsFromRecords(records: unknown[], provider: EventProvider['name'], query?: EventQuery, now: Date = new Date()): FinancialEvent[] {
+    const events: FinancialEvent[] = [];
+    for (const record of records) {
+        const result = validateEventRecord(record, query?.type, now);
+        if (result.ok === true) {
+            events.push(result.event);
+        } else if (result.ok === false) {
+            recordRejection({
+                provider,
+                query: query ? datasetKey(query) : 'all',
+                record,
+                reasons: result.reasons,
+            });
+        }
+    }
+    return events;
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AnnouncementPeriod, EventWindow } from '../types';
+import type { EventQuery } from './types';
+import { announcementTime, exchangeForTicker } from '../markets';
+
+// How far each window reaches from "now", in days, unless a query says otherwise.
+export const WINDOW_DAYS: Record<EventWindow, number> = {
+    upcoming: 7,
+    past: 3,
+};
+
+/** The number of days a query covers. */
+export function windowDays({ window, days }: EventQuery): number {
+    return days ?? WINDOW_DAYS[window];
+}
+
+export interface EventTiming {
+    datetime: Date;
+    hasTime: boolean;
+    announcementPeriod?: AnnouncementPeriod;
+}
+
+/**
+ * Turns a date (YYYY-MM-DD) and a time field (HH:MM UTC, "Pre-market",
+ * "Post-market" or "N/A") into a concrete timestamp. Periods are placed
+ * against the trading session of the ticker's exchange (US markets when
+ * there is no ticker). Returns null if the result is not a valid date.
+ */
+export function resolveEventTiming(dateStr: string, timeStr: string, ticker?: string): EventTiming | null {
+    const date = dateStr.replace(/\*/g, '').trim();
+    const time = timeStr.trim();
+
+    let datetime: Date;
+    let announcementPeriod: AnnouncementPeriod | undefined = undefined;
+    let hasTime = true;
+
+    if (time.toLowerCase().includes('pre-market') || time.toLowerCase().includes('post-market')) {
+        announcementPeriod = time.toLowerCase().includes('pre-market') ? 'Pre-market' : 'Post-market';
+        if (isNaN(new Date(`${date}T00:00:00Z`).getTime())) return null;
+        datetime = announcementTime(date, announcementPeriod, exchangeForTicker(ticker));
+    } else if (time === '' || time.toUpperCase() === 'N/A') {
+        hasTime = false;
+        // Set to midnight UTC for day-based sorting
+        datetime = new Date(`${date}T00:00:00Z`);
+    } else {
+        // Times are HH:MM UTC, so we append 'Z' to parse them as UTC
+        datetime = new Date(`${date}T${time}:00Z`);
+    }
+
+    if (isNaN(datetime.getTime())) return null;
+    return { datetime, hasTime, announcementPeriod };
+}
+
+/** Returns the [start, end] bounds of a query's window relative to `now`. */
+export function windowBounds(query: EventQuery, now: Date = new Date()): [Date, Date] {
+    const edge = new Date(now);
+    if (query.window === 'upcoming') {
+        edge.setDate(now.getDate() + windowDays(query));
+        return [now, edge];
+    }
+    edge.setDate(now.getDate() - windowDays(query));
+    return [edge, now];
+}
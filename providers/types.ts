@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventType, EventWindow, FinancialEvent } from '../types';
+
+export interface EventQuery {
+  type: EventType;
+  window: EventWindow;
+  days?: number; // How far the window reaches; defaults to WINDOW_DAYS
+}
+
+// Identifies one of the four data sets, e.g. "macro/upcoming". The number of
+// days a data set covers is not part of its key.
+export type DatasetKey = `${EventType}/${EventWindow}`;
+
+export const datasetKey = ({ type, window }: EventQuery): DatasetKey => `${type}/${window}`;
+
+export const ALL_QUERIES: EventQuery[] = [
+    { type: 'macro', window: 'upcoming' },
+    { type: 'corp', window: 'upcoming' },
+    { type: 'macro', window: 'past' },
+    { type: 'corp', window: 'past' },
+];
+
+/**
+ * A source of financial events. Each provider answers one query at a time:
+ * a category (macro / corp) within a time window (upcoming / past) of a
+ * given number of days.
+ */
+export interface EventProvider {
+  readonly name: string;
+  fetchEvents(query: EventQuery): Promise<FinancialEvent[]>;
+}
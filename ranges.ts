@@ -0,0 +1,258 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventWindow, FinancialEvent, Impact } from './types';
+import { WINDOW_DAYS } from './providers/shared';
+import { dateKeyWeekday, shiftDateKey, zonedDateKey, zonedMidnight } from './timezones';
+
+// --- TIME RANGES ---
+// The dashboard shows one time range at a time. Forward-looking presets start
+// "now"; "last N days" and custom ranges may reach into the past, in which
+// case the past section shows that part of the range instead of the default
+// last few days. Day boundaries are those of the display time zone.
+export type RangePreset = '24h' | 'today' | 'week' | '7d' | '14d' | '30d' | 'past' | 'custom';
+
+export interface TimeRange {
+  preset: RangePreset;
+  pastDays?: number; // "past" preset: how many days back
+  from?: string;     // "custom" preset: first day, YYYY-MM-DD in the display zone
+  to?: string;       // "custom" preset: last day, inclusive
+}
+
+export interface ResolvedRange {
+  start: Date;
+  end: Date;
+  upcoming: [Date, Date] | null; // The part of the range from now on
+  past: [Date, Date];            // What the past section shows
+  pastFromRange: boolean;        // False when `past` is the default window
+}
+
+// Sources are never asked to look further than this either side of today.
+export const MAX_RANGE_DAYS = 31;
+
+export const DEFAULT_TIME_RANGE: TimeRange = { preset: '7d' };
+
+export const RANGE_PRESET_LABELS: Record<RangePreset, string> = {
+    '24h': 'Next 24 hours',
+    today: 'Today',
+    week: 'This week',
+    '7d': 'Next 7 days',
+    '14d': 'Next 14 days',
+    '30d': 'Next 30 days',
+    past: 'Last N days',
+    custom: 'Custom range',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STORAGE_KEY = 'financial-events-radar:range';
+
+// --- DATE HELPERS ---
+const addDays = (instant: Date, days: number) => new Date(instant.getTime() + days * DAY_MS);
+
+const isDateKey = (value: string | undefined): value is string =>
+    !!value && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime());
+
+/** Monday of the week containing a YYYY-MM-DD date. */
+export function weekStartKey(key: string): string {
+    return shiftDateKey(key, -((dateKeyWeekday(key) + 6) % 7));
+}
+
+const clampDays = (days: number) => Math.min(MAX_RANGE_DAYS, Math.max(1, Math.round(days)));
+
+// --- RESOLVING ---
+export function resolveRange(range: TimeRange, timeZone: string, now: Date = new Date()): ResolvedRange {
+    const today = zonedDateKey(now, timeZone);
+    const earliest = addDays(now, -MAX_RANGE_DAYS);
+    const latest = addDays(now, MAX_RANGE_DAYS);
+    let start = now;
+    let end: Date;
+
+    switch (range.preset) {
+        case '24h':
+            end = new Date(now.getTime() + DAY_MS);
+            break;
+        case 'today':
+            end = zonedMidnight(shiftDateKey(today, 1), timeZone);
+            break;
+        case 'week':
+            end = zonedMidnight(shiftDateKey(weekStartKey(today), 7), timeZone);
+            break;
+        case '14d':
+            end = addDays(now, 14);
+            break;
+        case '30d':
+            end = addDays(now, 30);
+            break;
+        case 'past':
+            start = addDays(now, -clampDays(range.pastDays ?? WINDOW_DAYS.past));
+            end = now;
+            break;
+        case 'custom': {
+            const from = isDateKey(range.from) ? range.from : today;
+            const to = isDateKey(range.to) ? range.to : from;
+            const [first, last] = from <= to ? [from, to] : [to, from];
+            start = zonedMidnight(first, timeZone);
+            end = zonedMidnight(shiftDateKey(last, 1), timeZone); // Include the whole last day
+            break;
+        }
+        case '7d':
+        default:
+            end = addDays(now, 7);
+    }
+    if (start < earliest) start = earliest;
+    if (end > latest) end = latest;
+    if (end < start) end = start;
+
+    const upcoming: [Date, Date] | null = end > now && end > start ? [start > now ? start : now, end] : null;
+    const pastFromRange = start < now;
+    const past: [Date, Date] = pastFromRange
+        ? [start, end < now ? end : now]
+        : [addDays(now, -WINDOW_DAYS.past), now];
+    return { start, end, upcoming, past, pastFromRange };
+}
+
+/**
+ * How many days each window must reach from now to cover the range. Never
+ * less than the default windows, so that switching between short presets
+ * does not trigger a fetch.
+ */
+export function requiredWindowDays(resolved: ResolvedRange, now: Date = new Date()): Record<EventWindow, number> {
+    const upcomingDays = resolved.upcoming ? Math.ceil((resolved.upcoming[1].getTime() - now.getTime()) / DAY_MS) : 0;
+    const pastDays = Math.ceil((now.getTime() - resolved.past[0].getTime()) / DAY_MS);
+    return {
+        upcoming: clampDays(Math.max(WINDOW_DAYS.upcoming, upcomingDays)),
+        past: clampDays(Math.max(WINDOW_DAYS.past, pastDays)),
+    };
+}
+
+export function isWithin(event: FinancialEvent, [start, end]: [Date, Date]): boolean {
+    return event.datetime >= start && event.datetime <= end;
+}
+
+/**
+ * The events still to come in the range, in chronological order. One due
+ * exactly now still counts as upcoming; it moves to the past a moment later.
+ */
+export function upcomingInRange(events: FinancialEvent[], resolved: ResolvedRange, now: Date = new Date()): FinancialEvent[] {
+    const { upcoming } = resolved;
+    if (!upcoming) return [];
+    return events
+        .filter(event => event.datetime >= now && isWithin(event, upcoming))
+        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+}
+
+/** The events the past section shows. */
+export function pastInRange(events: FinancialEvent[], resolved: ResolvedRange, now: Date = new Date()): FinancialEvent[] {
+    return events.filter(event => event.datetime < now && isWithin(event, resolved.past));
+}
+
+// --- LABELS ---
+/** Text for the past section toggle, e.g. "View Past 3 Days' Events". */
+export function pastSectionLabel(range: TimeRange, resolved: ResolvedRange, timeZone: string): string {
+    const formatDay = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone });
+    if (!resolved.pastFromRange) return `View Past ${WINDOW_DAYS.past} Days' Events`;
+    if (range.preset === 'past') {
+        const days = clampDays(range.pastDays ?? WINDOW_DAYS.past);
+        return days === 1 ? "View Past Day's Events" : `View Past ${days} Days' Events`;
+    }
+    const [start, end] = resolved.past;
+    return `View Past Events (${formatDay(start)} – ${formatDay(new Date(end.getTime() - 1))})`;
+}
+
+/** A file-name friendly description of the range, e.g. "next-7d" or "2025-03-01-to-2025-03-14". */
+export function rangeSlug(range: TimeRange, resolved: ResolvedRange, timeZone: string): string {
+    switch (range.preset) {
+        case '24h': return 'next-24h';
+        case 'today': return 'today';
+        case 'week': return 'this-week';
+        case '14d': return 'next-14d';
+        case '30d': return 'next-30d';
+        case 'past': return `past-${clampDays(range.pastDays ?? WINDOW_DAYS.past)}d`;
+        case 'custom': return range.from && range.to
+            ? `${range.from}-to-${range.to}`
+            : `${zonedDateKey(resolved.start, timeZone)}-to-${zonedDateKey(new Date(resolved.end.getTime() - 1), timeZone)}`;
+        default: return 'next-7d';
+    }
+}
+
+// --- PERSISTENCE ---
+/** A range from untrusted input (storage, a link), or the default when it has no known preset. */
+export function parseTimeRange(parsed: Partial<TimeRange>): TimeRange {
+    if (!parsed.preset || !Object.hasOwn(RANGE_PRESET_LABELS, parsed.preset)) return { ...DEFAULT_TIME_RANGE };
+    return {
+        preset: parsed.preset,
+        pastDays: typeof parsed.pastDays === 'number' && !isNaN(parsed.pastDays) ? clampDays(parsed.pastDays) : undefined,
+        from: typeof parsed.from === 'string' ? parsed.from : undefined,
+        to: typeof parsed.to === 'string' ? parsed.to : undefined,
+    };
+}
+
+export function loadTimeRange(): TimeRange {
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        if (!raw) return { ...DEFAULT_TIME_RANGE };
+        return parseTimeRange(JSON.parse(raw) ?? {});
+    } catch (e) {
+        console.warn('Ignoring unreadable time range:', e);
+        return { ...DEFAULT_TIME_RANGE };
+    }
+}
+
+export function saveTimeRange(range: TimeRange) {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(range));
+    } catch (e) {
+        console.warn('Could not save time range:', e);
+    }
+}
+
+// --- CALENDAR GRID ---
+export type CalendarView = 'week' | 'month';
+
+/** First day of the month `steps` months after the one containing `key`. */
+function monthStartKey(key: string, steps: number = 0): string {
+    const [year, month] = key.split('-').map(Number);
+    return new Date(Date.UTC(year, month - 1 + steps, 1)).toISOString().slice(0, 10);
+}
+
+/**
+ * The dates (YYYY-MM-DD) a week or month grid shows around the `anchor`
+ * date, Monday first and in whole weeks.
+ */
+export function calendarDays(anchor: string, view: CalendarView): string[] {
+    let first: string;
+    let count: number;
+    if (view === 'week') {
+        first = weekStartKey(anchor);
+        count = 7;
+    } else {
+        first = weekStartKey(monthStartKey(anchor));
+        const after = shiftDateKey(weekStartKey(shiftDateKey(monthStartKey(anchor, 1), -1)), 7);
+        count = Math.round((Date.parse(after) - Date.parse(first)) / DAY_MS);
+    }
+    return Array.from({ length: count }, (_, i) => shiftDateKey(first, i));
+}
+
+/** Moves a grid anchor date by whole weeks or months. */
+export function shiftAnchor(anchor: string, view: CalendarView, steps: number): string {
+    return view === 'week'
+        ? shiftDateKey(weekStartKey(anchor), 7 * steps)
+        : monthStartKey(anchor, steps);
+}
+
+const IMPACT_WEIGHT: Record<Impact, number> = { High: 3, Medium: 2, Low: 1 };
+
+/**
+ * Heat level (0-4) of a day: each event adds its impact weight (earnings
+ * count as low impact), so one high-impact release outweighs a couple of
+ * minor ones.
+ */
+export function dayHeat(events: FinancialEvent[]): number {
+    const score = events.reduce((sum, event) => sum + (event.impact ? IMPACT_WEIGHT[event.impact] : 1), 0);
+    if (score === 0) return 0;
+    if (score <= 2) return 1;
+    if (score <= 5) return 2;
+    if (score <= 8) return 3;
+    return 4;
+}
@@ -0,0 +1,297 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Citation, EventWindow, FinancialEvent } from './types';
+import { eventIdentity, extractTicker, normalizeTicker } from './events';
+
+// --- RECONCILIATION ---
+// The four data sets are fetched independently, so one release can come back
+// from several of them under different names or times ("US CPI" upcoming,
+// "CPI m/m" past). Events are matched on a normalised name or ticker, region
+// and time, and each group is merged into one event by the precedence rules
+// in mergeGroup().
+export interface SourcedEvents {
+  source: string;      // e.g. a DatasetKey such as "macro/past"
+  window?: EventWindow;
+  fetchedAt: number;   // Epoch ms
+  events: FinancialEvent[];
+}
+
+export interface MergeMember {
+  source: string;
+  name: string;
+  datetime: Date;
+}
+
+// One group of duplicates and how it was settled, for the debug view.
+export interface MergeRecord {
+  identity: string; // Of the merged event
+  name: string;
+  members: MergeMember[];
+  reasons: string[];
+}
+
+export interface Reconciliation {
+  events: FinancialEvent[];
+  merges: MergeRecord[];
+}
+
+// Releases of one event are at most this far apart across responses; a date
+// given without a time counts as midnight UTC.
+const MAX_APART_MS = 24 * 60 * 60 * 1000;
+
+// --- NAME NORMALISATION ---
+// How often a figure is compared: "CPI m/m" and "CPI y/y" are two releases.
+const QUALIFIERS: [RegExp, string][] = [
+    [/\bm\s*\/\s*m\b|\bmom\b|\bmonth[\s-]+(?:on|over)[\s-]+month\b|\bmonthly\b/g, ' m/m '],
+    [/\by\s*\/\s*y\b|\byoy\b|\byear[\s-]+(?:on|over)[\s-]+year\b|\bannual\b|\byearly\b/g, ' y/y '],
+    [/\bq\s*\/\s*q\b|\bqoq\b|\bquarter[\s-]+(?:on|over)[\s-]+quarter\b|\bquarterly\b/g, ' q/q '],
+];
+
+const ALIASES: [RegExp, string][] = [
+    [/\bconsumer price index\b/g, 'cpi'],
+    [/\bproducer price index\b/g, 'ppi'],
+    [/\bgross domestic product\b/g, 'gdp'],
+    [/\bpersonal consumption expenditures?(?: price index)?\b/g, 'pce'],
+    [/\bpurchasing managers? index\b/g, 'pmi'],
+    [/\bnon ?farm (?:payrolls?|employment change)\b|\bnfp\b/g, 'nfp'],
+    [/\b(?:interest )?rate (?:decision|announcement)\b|\bpolicy rate\b/g, 'rate decision'],
+];
+
+// Words naming the economy or its central bank, which the region fields
+// already cover.
+const REGION_WORDS: [RegExp, string][] = [
+    [/\b(?:us|u s|usa|united states|american|fed|fomc|federal reserve)\b/g, 'US'],
+    [/\b(?:uk|u k|united kingdom|british|britain|boe|bank of england)\b/g, 'GB'],
+    [/\b(?:eurozone|euro zone|euro area|ez|ecb|european central bank)\b/g, 'EU'],
+    [/\b(?:germany|german)\b/g, 'DE'],
+    [/\b(?:france|french)\b/g, 'FR'],
+    [/\b(?:italy|italian)\b/g, 'IT'],
+    [/\b(?:spain|spanish)\b/g, 'ES'],
+    [/\b(?:japan|japanese|boj|bank of japan)\b/g, 'JP'],
+    [/\b(?:china|chinese|pboc)\b/g, 'CN'],
+    [/\b(?:canada|canadian|boc|bank of canada)\b/g, 'CA'],
+    [/\b(?:australia|australian|rba)\b/g, 'AU'],
+    [/\b(?:new zealand|rbnz)\b/g, 'NZ'],
+    [/\b(?:switzerland|swiss|snb)\b/g, 'CH'],
+];
+
+const CURRENCY_REGIONS: Record<string, string> = {
+    USD: 'US', GBP: 'GB', EUR: 'EU', JPY: 'JP', CNY: 'CN', CAD: 'CA', AUD: 'AU', NZD: 'NZ', CHF: 'CH',
+};
+
+const FILLER_WORDS = /\b(?:the|data|release|report|figures?|s a|sa)\b/g;
+const COMPANY_SUFFIXES = /\b(?:inc|incorporated|corp|corporation|co|company|ltd|limited|plc|ag|sa|nv|se|holdings?|group|class [a-c])\b/g;
+
+interface NameKey {
+  core: string;       // Normalised name without region, qualifier or filler
+  qualifier?: string; // "m/m", "y/y" or "q/q"
+  region?: string;    // Implied by the name, e.g. "US" for "US CPI"
+}
+
+function nameKey(name: string): NameKey {
+    let text = name.toLowerCase();
+    let qualifier: string | undefined;
+    for (const [pattern, replacement] of QUALIFIERS) {
+        if (text.search(pattern) !== -1) qualifier = replacement.trim();
+        text = text.replace(pattern, ' ');
+    }
+    text = text.replace(/[^a-z0-9%]+/g, ' ');
+    for (const [pattern, replacement] of ALIASES) {
+        text = text.replace(pattern, replacement);
+    }
+    let region: string | undefined;
+    for (const [pattern, code] of REGION_WORDS) {
+        if (text.search(pattern) !== -1) region ??= code;
+        text = text.replace(pattern, ' ');
+    }
+    const core = text.replace(FILLER_WORDS, ' ').replace(/\s+/g, ' ').trim();
+    return { core, qualifier, region };
+}
+
+function eventRegion(event: FinancialEvent, key: NameKey): string | undefined {
+    return event.country ?? key.region ?? (event.currency && CURRENCY_REGIONS[event.currency]);
+}
+
+function companyName(name: string): string {
+    return name.toLowerCase().replace(/\([^)]*\)\s*$/, '').replace(/[^a-z0-9]+/g, ' ')
+        .replace(COMPANY_SUFFIXES, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// --- MATCHING ---
+interface Entry {
+  event: FinancialEvent;
+  source: SourcedEvents;
+  key: NameKey;
+  ticker?: string;
+}
+
+/** Why two entries are the same event, or null when they are not. */
+function matchReason(a: Entry, b: Entry): string | null {
+    if (a.event.type !== b.event.type) return null;
+    if (Math.abs(a.event.datetime.getTime() - b.event.datetime.getTime()) >= MAX_APART_MS) return null;
+
+    if (a.event.type === 'corp') {
+        if (eventIdentity(a.event) === eventIdentity(b.event)) return 'same name and day';
+        if (a.ticker && b.ticker) return a.ticker === b.ticker ? `same ticker ${a.ticker}` : null;
+        const name = companyName(a.event.name);
+        return name && name === companyName(b.event.name) ? `same company "${name}"` : null;
+    }
+
+    // Releases from two regions are never one event, however alike their names.
+    const regionA = eventRegion(a.event, a.key);
+    const regionB = eventRegion(b.event, b.key);
+    if (regionA && regionB && regionA !== regionB) return null;
+    if (eventIdentity(a.event) === eventIdentity(b.event)) return 'same name and day';
+
+    if (!a.key.core || a.key.core !== b.key.core) return null;
+    if (a.key.qualifier && b.key.qualifier && a.key.qualifier !== b.key.qualifier) return null;
+    const region = regionA ?? regionB;
+    return `names match as "${a.key.core}"${region ? ` in ${region}` : ''}`;
+}
+
+// --- PRECEDENCE ---
+// Entries are ranked so that events the search results back up beat
+// unverified ones, and fresher fetches beat older ones. Individual fields
+// then follow the rules in mergeGroup().
+function compareRank(a: Entry, b: Entry): number {
+    const verified = (e: Entry) => e.event.verification?.verified === false ? 0 : 1;
+    return verified(b) - verified(a) || b.source.fetchedAt - a.source.fetchedAt;
+}
+
+function describe(entry: Entry): string {
+    return `"${entry.event.name}" (${entry.source.source})`;
+}
+
+function fillMissing<K extends keyof FinancialEvent>(target: FinancialEvent, source: FinancialEvent, field: K) {
+    if (target[field] === undefined) target[field] = source[field];
+}
+
+/**
+ * Merges a group of duplicates, `entries` ranked best first (an event from
+ * before the refresh comes last):
+ * - Every field comes from the best entry that has it.
+ * - The time comes from the best entry with a specific time, then one with
+ *   a pre-/post-market period, since a bare date is the least precise.
+ * - The actual comes from a past window when one has it: past responses
+ *   report results, upcoming ones at best echo them.
+ * - The name is the one shown before this refresh, if any, so the event keeps
+ *   its identity; otherwise the best name that says how the figure is compared.
+ * - Citations are pooled, and the event is verified if any entry is.
+ */
+function mergeGroup(entries: Entry[], previousName: string | undefined, reasons: string[]): FinancialEvent {
+    const [best] = entries;
+    const merged: FinancialEvent = { ...best.event };
+    for (const entry of entries.slice(1)) {
+        for (const field of Object.keys(entry.event) as (keyof FinancialEvent)[]) fillMissing(merged, entry.event, field);
+    }
+
+    const timed = entries.find(e => e.event.hasTime) ?? entries.find(e => e.event.announcementPeriod) ?? best;
+    merged.datetime = timed.event.datetime;
+    merged.hasTime = timed.event.hasTime;
+    merged.announcementPeriod = timed.event.announcementPeriod;
+    if (entries.some(e => e.event.datetime.getTime() !== timed.event.datetime.getTime())) {
+        reasons.push(timed === best
+            ? `time from ${describe(timed)}, the best-ranked source`
+            : `time from ${describe(timed)}, which gives a more precise time`);
+    }
+
+    const withActual = entries.filter(e => e.event.actual);
+    const actual = withActual.find(e => e.source.window === 'past') ?? withActual[0];
+    if (actual) {
+        merged.actual = actual.event.actual;
+        merged.sentiment = actual.event.sentiment;
+        if (withActual.some(e => e.event.actual !== actual.event.actual)) {
+            reasons.push(`actual from ${describe(actual)}${actual.source.window === 'past' ? ', a past window' : ''}`);
+        }
+    }
+
+    const qualified = best.key.qualifier ? best : entries.find(e => e.key.qualifier);
+    merged.name = previousName ?? (qualified ?? best).event.name;
+    if (previousName) {
+        reasons.push(`name "${previousName}" kept from before the refresh`);
+    } else if (qualified && qualified !== best) {
+        reasons.push(`name from ${describe(qualified)}, which says how the figure is compared`);
+    }
+
+    const citations = new Map<string, Citation>();
+    for (const citation of entries.flatMap(e => e.event.citations ?? [])) {
+        if (!citations.has(citation.url)) citations.set(citation.url, citation);
+    }
+    if (citations.size > 0) merged.citations = [...citations.values()];
+    merged.verification = entries.find(e => e.event.verification?.verified)?.event.verification ?? best.event.verification;
+    return merged;
+}
+
+/**
+ * Merges duplicate events across `sources` into one event each. An event in
+ * `previous` (the list shown before a refresh) that is still there keeps its
+ * name, and joins its group last, so it only fills in fields the refresh
+ * left out.
+ */
+export function reconcileEvents(sources: SourcedEvents[], previous: FinancialEvent[] = []): Reconciliation {
+    const entries: Entry[] = sources.flatMap(source => source.events.map(event => ({
+        event,
+        source,
+        key: nameKey(event.name),
+        ticker: event.type === 'corp' ? normalizeTicker(extractTicker(event.name)) : undefined,
+    }))).sort(compareRank);
+
+    // Best-ranked entries found the groups; each later entry joins the first
+    // group whose members it all matches, so "US CPI" cannot pull "CPI m/m"
+    // and "CPI y/y" together.
+    const groups: { entries: Entry[]; reasons: string[] }[] = [];
+    for (const entry of entries) {
+        let joined = false;
+        for (const group of groups) {
+            const matches = group.entries.map(member => matchReason(member, entry));
+            const match = matches.every(Boolean) && matches[0];
+            if (match) {
+                group.entries.push(entry);
+                group.reasons.push(`${describe(entry)}: ${match}`);
+                joined = true;
+                break;
+            }
+        }
+        if (!joined) groups.push({ entries: [entry], reasons: [] });
+    }
+
+    // Events from before the refresh, under the identity of every event they match.
+    const previousMatches = new Map<string, FinancialEvent>();
+    const earlierRefresh: SourcedEvents = { source: 'earlier refresh', fetchedAt: 0, events: previous };
+    const previousEntries: Entry[] = previous.map(event => ({
+        event,
+        source: earlierRefresh,
+        key: nameKey(event.name),
+        ticker: event.type === 'corp' ? normalizeTicker(extractTicker(event.name)) : undefined,
+    }));
+    for (const entry of entries) {
+        const match = previousEntries.find(p => matchReason(p, entry));
+        if (match) previousMatches.set(eventIdentity(entry.event), match.event);
+    }
+
+    const events: FinancialEvent[] = [];
+    const merges: MergeRecord[] = [];
+    const claimed = new Set<FinancialEvent>();
+    for (const group of groups) {
+        const reasons = [...group.reasons];
+        // An earlier event lends its name to one group only, or two events
+        // could end up with the same identity.
+        const earlier = group.entries.map(e => previousMatches.get(eventIdentity(e.event)))
+            .find(event => event && !claimed.has(event));
+        if (earlier) claimed.add(earlier);
+        const earlierEntry = previousEntries.find(p => p.event === earlier);
+        const event = mergeGroup(earlierEntry ? [...group.entries, earlierEntry] : group.entries, earlier?.name, reasons);
+        events.push(event);
+        const members: MergeMember[] = group.entries.map(e => ({ source: e.source.source, name: e.event.name, datetime: e.event.datetime }));
+        // A renamed event carried over from the last refresh counts as a merge too.
+        if (earlier && !members.some(m => m.name === earlier.name)) {
+            members.unshift({ source: earlierRefresh.source, name: earlier.name, datetime: earlier.datetime });
+        }
+        if (members.length > 1) {
+            merges.push({ identity: eventIdentity(event), name: event.name, members, reasons });
+        }
+    }
+    return { events, merges };
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { isTransientError } from './providers';
+
+// --- RETRY WITH BACKOFF ---
+export interface RetryOptions {
+  maxAttempts?: number;  // Including the first try
+  baseDelayMs?: number;  // Delay before the second attempt; doubles after that
+  maxDelayMs?: number;
+  shouldRetry?: (error: unknown) => boolean;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void; // `attempt` is the one about to start
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff and a
+ * little jitter so parallel sections do not retry in lockstep. The last error
+ * is rethrown once attempts run out or a failure is not retryable.
+ */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const {
+        maxAttempts = 3,
+        baseDelayMs = 1000,
+        maxDelayMs = 15000,
+        shouldRetry = isTransientError,
+        onRetry,
+    } = options;
+
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await task();
+        } catch (error) {
+            if (attempt >= maxAttempts || !shouldRetry(error)) throw error;
+            const backoff = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+            const delayMs = Math.round(backoff * (0.8 + Math.random() * 0.4));
+            onRetry?.(attempt + 1, delayMs, error);
+            await sleep(delayMs);
+        }
+    }
+}
@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- RESPONSE CACHE ---
+export interface CacheResult<T> {
+  value: T;
+  fetchedAt: number;
+  status: 'HIT' | 'MISS' | 'STALE';
+}
+
+export interface ResponseCache<T> {
+  get(key: string, load: () => Promise<T>, now?: number): Promise<CacheResult<T>>;
+  expiresAt(key: string): number | undefined;
+}
+
+/**
+ * An in-memory cache of upstream responses. Concurrent requests for the same
+ * key share one upstream call, and if a refresh fails the last good value is
+ * served (marked STALE) rather than an error.
+ */
+export function createResponseCache<T>(ttlFor: (key: string) => number): ResponseCache<T> {
+    const entries = new Map<string, { value: T; fetchedAt: number }>();
+    const inFlight = new Map<string, Promise<CacheResult<T>>>();
+
+    return {
+        async get(key, load, now = Date.now()) {
+            const entry = entries.get(key);
+            if (entry && now - entry.fetchedAt < ttlFor(key)) {
+                return { ...entry, status: 'HIT' };
+            }
+
+            let pending = inFlight.get(key);
+            if (!pending) {
+                pending = (async (): Promise<CacheResult<T>> => {
+                    try {
+                        const fresh = { value: await load(), fetchedAt: Date.now() };
+                        entries.set(key, fresh);
+                        return { ...fresh, status: 'MISS' };
+                    } catch (error) {
+                        if (entry) {
+                            console.warn(`Serving stale ${key} after upstream failure:`, error);
+                            return { ...entry, status: 'STALE' };
+                        }
+                        throw error;
+                    } finally {
+                        inFlight.delete(key);
+                    }
+                })();
+                inFlight.set(key, pending);
+            }
+            return pending;
+        },
+
+        expiresAt(key) {
+            const entry = entries.get(key);
+            return entry ? entry.fetchedAt + ttlFor(key) : undefined;
+        },
+    };
+}
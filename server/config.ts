@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { existsSync } from 'node:fs';
+
+// --- SERVER CONFIG ---
+export interface ServerConfig {
+  port: number;
+  geminiApiKey: string;
+  rateLimitPerMinute: number; // Requests per client IP per minute
+  allowedOrigins: string[];   // CORS origins; empty means same-origin only
+  trustProxy: boolean;        // Take the client IP from X-Forwarded-For
+  publicUrl: string;          // Where the proxy is reached from mail links
+  dashboardUrl: string;       // Linked from the digest
+  subscriptionsFile: string;  // JSON store of digest subscribers
+  smtpHost: string;           // Relay that accepts outgoing mail
+  smtpPort: number;
+  mailFrom: string;
+  digestTimeZone: string;     // Days and times in the digest
+}
+
+/**
+ * Reads the server settings from the environment. `.env.local` is loaded
+ * first if present, so the proxy and the Vite dev server share one file.
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+    if (env === process.env && existsSync('.env.local')) {
+        process.loadEnvFile('.env.local');
+    }
+
+    const geminiApiKey = env.GEMINI_API_KEY || env.API_KEY;
+    if (!geminiApiKey) {
+        throw new Error('GEMINI_API_KEY is not set. Add it to .env.local or the environment.');
+    }
+
+    const port = Number(env.PORT) || 8787;
+    return {
+        port,
+        geminiApiKey,
+        rateLimitPerMinute: Number(env.RATE_LIMIT_PER_MINUTE) || 30,
+        allowedOrigins: (env.ALLOWED_ORIGINS ?? '').split(',').map(o => o.trim()).filter(Boolean),
+        trustProxy: env.TRUST_PROXY === '1' || env.TRUST_PROXY === 'true',
+        publicUrl: (env.PUBLIC_URL || `http://localhost:${port}`).replace(/\/+$/, ''),
+        dashboardUrl: env.DASHBOARD_URL || 'http://localhost:5173',
+        subscriptionsFile: env.SUBSCRIPTIONS_FILE || 'data/subscriptions.json',
+        smtpHost: env.SMTP_HOST || 'localhost',
+        smtpPort: Number(env.SMTP_PORT) || 1025,
+        mailFrom: env.MAIL_FROM || 'Financial Events Radar <radar@localhost>',
+        digestTimeZone: env.DIGEST_TIME_ZONE || 'UTC',
+    };
+}
@@ -0,0 +1,123 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent } from '../types';
+import { zonedDateKey } from '../timezones';
+import { eventDateKey } from '../events';
+
+// --- WEEKLY DIGEST ---
+// The coming week's events as an email, in HTML and plain text. Days and
+// times are given in one time zone, since a mail cannot follow the reader's.
+export interface Digest {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export interface DigestOptions {
+  now: Date;
+  timeZone: string;
+  dashboardUrl: string;
+  unsubscribeUrl: string;
+}
+
+export const DIGEST_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const IMPACT_ORDER = { High: 0, Medium: 1, Low: 2 };
+
+export function escapeHtml(text: string): string {
+    return text.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/** Formats a YYYY-MM-DD date; noon UTC keeps it on the same day in any zone. */
+function formatDateKey(key: string, options: Intl.DateTimeFormatOptions): string {
+    return new Date(`${key}T12:00:00Z`).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+}
+
+function eventTime(event: FinancialEvent, timeZone: string): string {
+    if (event.announcementPeriod) return event.announcementPeriod;
+    if (!event.hasTime) return 'All day';
+    return event.datetime.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hourCycle: 'h23', timeZone });
+}
+
+/** "Forecast 3.2% · Previous 3.1%", or the analyst prediction for earnings. */
+function eventFigures(event: FinancialEvent): string {
+    if (event.type === 'corp') return event.analystPrediction ? `Expected ${event.analystPrediction}` : '';
+    return [event.forecast && `Forecast ${event.forecast}`, event.previous && `Previous ${event.previous}`]
+        .filter(Boolean).join(' · ');
+}
+
+/** The events from `now` to a week later, by time and then impact. */
+export function digestEvents(events: FinancialEvent[], now: Date): FinancialEvent[] {
+    const end = now.getTime() + DIGEST_DAYS * DAY_MS;
+    return events
+        .filter(event => event.datetime >= now && event.datetime.getTime() < end)
+        .sort((a, b) => a.datetime.getTime() - b.datetime.getTime()
+            || IMPACT_ORDER[a.impact ?? 'Low'] - IMPACT_ORDER[b.impact ?? 'Low']);
+}
+
+export function buildDigest(events: FinancialEvent[], { now, timeZone, dashboardUrl, unsubscribeUrl }: DigestOptions): Digest {
+    const week = digestEvents(events, now);
+    const days = new Map<string, FinancialEvent[]>();
+    for (const event of week) {
+        const key = eventDateKey(event, timeZone);
+        if (!days.has(key)) days.set(key, []);
+        days.get(key)!.push(event);
+    }
+    // A date-only event sorts at midnight UTC, ahead of the previous evening's events west of UTC.
+    const sortedDays = [...days].sort(([a], [b]) => a.localeCompare(b));
+
+    const firstDay = zonedDateKey(now, timeZone);
+    const lastDay = zonedDateKey(new Date(now.getTime() + DIGEST_DAYS * DAY_MS - 1), timeZone);
+    const span = `${formatDateKey(firstDay, { month: 'short', day: 'numeric' })} – ${formatDateKey(lastDay, { month: 'short', day: 'numeric' })}`;
+    const highImpact = week.filter(event => event.impact === 'High').length;
+    const subject = week.length === 0
+        ? `Your week ahead (${span}): no scheduled events`
+        : `Your week ahead (${span}): ${week.length === 1 ? '1 event' : `${week.length} events`}${highImpact ? `, ${highImpact} high impact` : ''}`;
+    const zoneNote = `Times are in ${timeZone}.`;
+
+    // Plain text
+    const textLines = [`Financial Events Radar — the week of ${span}`, ''];
+    if (week.length === 0) textLines.push('No scheduled macro releases or earnings were found for the coming week.', '');
+    for (const [key, dayEvents] of sortedDays) {
+        textLines.push(formatDateKey(key, { weekday: 'long', month: 'long', day: 'numeric' }).toUpperCase());
+        for (const event of dayEvents) {
+            const tags = [event.impact && `${event.impact} impact`, event.currency ?? event.country].filter(Boolean).join(', ');
+            textLines.push(`  ${eventTime(event, timeZone).padEnd(11)} ${event.name}${tags ? ` (${tags})` : ''}`);
+            const figures = eventFigures(event);
+            if (figures) textLines.push(`              ${figures}`);
+        }
+        textLines.push('');
+    }
+    textLines.push(zoneNote, `Open the dashboard: ${dashboardUrl}`, `Unsubscribe: ${unsubscribeUrl}`);
+
+    // HTML, with inline styles since mail clients drop style sheets
+    const cell = 'padding:6px 8px;border-bottom:1px solid #e5e7eb;vertical-align:top;';
+    const htmlDays = sortedDays.map(([key, dayEvents]) => {
+        const rows = dayEvents.map(event => {
+            const figures = eventFigures(event);
+            const region = event.currency ?? event.country;
+            return `<tr>`
+                + `<td style="${cell}white-space:nowrap;color:#4b5563;">${escapeHtml(eventTime(event, timeZone))}</td>`
+                + `<td style="${cell}"><strong>${escapeHtml(event.name)}</strong>`
+                + (figures ? `<br><span style="color:#4b5563;">${escapeHtml(figures)}</span>` : '')
+                + `</td>`
+                + `<td style="${cell}white-space:nowrap;">${escapeHtml([event.impact, region].filter(Boolean).join(' · '))}</td>`
+                + `</tr>`;
+        }).join('');
+        const heading = escapeHtml(formatDateKey(key, { weekday: 'long', month: 'long', day: 'numeric' }));
+        return `<h2 style="font-size:16px;margin:24px 0 8px;">${heading}</h2>`
+            + `<table style="width:100%;border-collapse:collapse;font-size:14px;">${rows}</table>`;
+    }).join('');
+    const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title></head>`
+        + `<body style="font-family:Inter,Arial,sans-serif;color:#111827;max-width:640px;margin:0 auto;padding:16px;">`
+        + `<h1 style="font-size:20px;">Financial Events Radar — the week of ${escapeHtml(span)}</h1>`
+        + (week.length === 0 ? '<p>No scheduled macro releases or earnings were found for the coming week.</p>' : htmlDays)
+        + `<p style="color:#6b7280;font-size:12px;margin-top:24px;">${escapeHtml(zoneNote)} `
+        + `<a href="${escapeHtml(dashboardUrl)}">Open the dashboard</a> · `
+        + `<a href="${escapeHtml(unsubscribeUrl)}">Unsubscribe</a></p>`
+        + `</body></html>`;
+
+    return { subject, text: textLines.join('\n'), html };
+}
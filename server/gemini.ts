@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { GoogleGenAI, type GroundingMetadata } from "@google/genai";
+import type { EventType, EventWindow, FinancialEvent } from '../types';
+import { datasetKey, type EventProvider, type EventQuery } from '../providers/types';
+import { windowDays } from '../providers/shared';
+import { eventsFromRecords, type EventRecord } from '../providers/schema';
+import { recordRejection } from '../providers/diagnostics';
+import { ProviderError } from '../providers/errors';
+import { groundRecords } from './grounding';
+
+// --- PROMPTS ---
+// Search grounding cannot be combined with `responseSchema`, so the schema is
+// spelled out in the prompt and enforced when the response is parsed.
+interface PromptField {
+  key: keyof EventRecord;
+  description: string;
+}
+
+const field = (key: keyof EventRecord, description: string): PromptField => ({ key, description });
+
+// "7 days", or "day" for a one-day window ("the next day").
+const span = (days: number) => days === 1 ? 'day' : `${days} days`;
+
+const PROMPTS: Record<EventType, Record<EventWindow, { intro: (days: number) => string; fields: PromptField[] }>> = {
+    macro: {
+        upcoming: {
+            intro: days => `List major global macroeconomic events for the next ${span(days)}.`,
+            fields: [
+                field('date', 'date as "YYYY-MM-DD"'),
+                field('time', 'time in UTC as "HH:MM", or "N/A" if it is an all-day event or unknown'),
+                field('impact', '"High", "Medium" or "Low"'),
+                field('country', 'two-letter ISO country code of the economy, or "EU" for the euro area'),
+                field('currency', 'three-letter ISO code of the currency most affected, e.g. "USD"'),
+                field('name', 'event name'),
+                field('description', 'brief description'),
+                field('forecast', 'forecast value'),
+                field('previous', 'previous value'),
+                field('source', 'source'),
+            ],
+        },
+        past: {
+            intro: days => `List major global macroeconomic events from the past ${span(days)}.`,
+            fields: [
+                field('date', 'date as "YYYY-MM-DD"'),
+                field('time', 'time in UTC as "HH:MM", or "N/A" if it was an all-day event or unknown'),
+                field('impact', '"High", "Medium" or "Low"'),
+                field('country', 'two-letter ISO country code of the economy, or "EU" for the euro area'),
+                field('currency', 'three-letter ISO code of the currency most affected, e.g. "USD"'),
+                field('name', 'event name'),
+                field('description', 'brief description'),
+                field('actual', 'actual value'),
+                field('forecast', 'forecast value'),
+                field('previous', 'previous value'),
+                field('source', 'source'),
+            ],
+        },
+    },
+    corp: {
+        upcoming: {
+            intro: days => `List the most anticipated corporate earnings for the next ${span(days)}.`,
+            fields: [
+                field('date', 'date as "YYYY-MM-DD"'),
+                field('time', 'announcement time in UTC as "HH:MM", or the period "Pre-market" or "Post-market", or "N/A"'),
+                field('name', 'company name with ticker, as "COMPANY (TICKER)"'),
+                field('description', 'description of expectations'),
+                field('infoType', 'information type, e.g. "Q2 Earnings"'),
+                field('analystPrediction', 'a key analyst prediction, e.g. "EPS: $1.25"'),
+                field('source', 'source'),
+            ],
+        },
+        past: {
+            intro: days => `List significant corporate earnings from the past ${span(days)}.`,
+            fields: [
+                field('date', 'date as "YYYY-MM-DD"'),
+                field('time', 'announcement time in UTC as "HH:MM", or the period "Pre-market" or "Post-market", or "N/A"'),
+                field('name', 'company name with ticker, as "COMPANY (TICKER)"'),
+                field('description', 'results summary'),
+                field('infoType', 'information type, e.g. "Q2 Earnings"'),
+                field('actual', 'the actual result, e.g. "EPS: $1.30"'),
+                field('analystPrediction', 'the analyst prediction, e.g. "EPS: $1.25"'),
+                field('source', 'source'),
+            ],
+        },
+    },
+};
+
+export function buildPrompt(query: EventQuery): string {
+    const { intro, fields } = PROMPTS[query.type][query.window];
+    const keys = fields.map(f => `"${f.key}" (${f.description})`).join(', ');
+    return `${intro(windowDays(query))} Respond with only a JSON array and no other text. Each element must be an object with exactly these keys: ${keys}. Use null for any value that is not available.`;
+}
+
+// --- DATA PARSING ---
+/**
+ * Pulls the JSON array out of a model response. Models sometimes wrap the
+ * array in a Markdown code fence or a sentence of prose, so the outermost
+ * brackets are located rather than parsing the text as-is.
+ */
+export function extractJsonArray(responseText: string): unknown[] {
+    const unfenced = responseText.replace(/```(?:json)?/gi, '');
+    const start = unfenced.indexOf('[');
+    const end = unfenced.lastIndexOf(']');
+    if (start === -1 || end <= start) {
+        throw new Error('Response does not contain a JSON array');
+    }
+    const data = JSON.parse(unfenced.slice(start, end + 1));
+    if (!Array.isArray(data)) {
+        throw new Error('Response JSON is not an array');
+    }
+    return data;
+}
+
+/**
+ * Parses a response into events, each carrying the citations the grounding
+ * metadata links to it (see grounding.ts).
+ */
+export function parseApiResponse(responseText: string | undefined, query: EventQuery, grounding?: GroundingMetadata): FinancialEvent[] {
+    if (!responseText) return [];
+
+    let records: unknown[];
+    try {
+        records = extractJsonArray(responseText);
+    } catch (e) {
+        const reason = e instanceof Error ? e.message : String(e);
+        recordRejection({ provider: 'gemini', query: datasetKey(query), record: responseText, reasons: [reason] });
+        // Model output varies between calls, so asking again may well succeed.
+        throw new ProviderError(`Could not parse ${datasetKey(query)} response: ${reason}`, { transient: true, cause: e });
+    }
+    return eventsFromRecords(groundRecords(records, responseText, grounding), 'gemini', query);
+}
+
+// --- PROVIDER ---
+interface GroundedResponse {
+  text: string | undefined;
+  grounding?: GroundingMetadata;
+}
+
+export function createGeminiProvider(apiKey: string | undefined): EventProvider {
+    const ai = new GoogleGenAI({apiKey});
+
+    async function fetchFinancialData(prompt: string): Promise<GroundedResponse> {
+        try {
+            const response = await ai.models.generateContent({
+                model: "gemini-2.5-flash",
+                contents: prompt,
+                config: {
+                    tools: [{googleSearch: {}}],
+                },
+            });
+            return { text: response.text, grounding: response.candidates?.[0]?.groundingMetadata };
+        } catch (e) {
+            // The SDK reports HTTP failures as "got status: 503 ..." messages
+            // and network failures as "exception TypeError: fetch failed ...".
+            const message = e instanceof Error ? e.message : String(e);
+            const status = message.match(/got status: (\d{3})/)?.[1];
+            if (status) {
+                throw new ProviderError(`Gemini request failed: ${message}`, { status: Number(status), cause: e });
+            }
+            if (/fetch failed/i.test(message)) {
+                throw new ProviderError(`Gemini request failed: ${message}`, { transient: true, cause: e });
+            }
+            throw e;
+        }
+    }
+
+    return {
+        name: 'gemini',
+        async fetchEvents(query: EventQuery) {
+            const { text, grounding } = await fetchFinancialData(buildPrompt(query));
+            return parseApiResponse(text, query, grounding);
+        },
+    };
+}
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GroundingChunk, GroundingMetadata, Segment } from '@google/genai';
+import type { Citation, Verification } from '../types';
+
+// --- GROUNDING ---
+// With Google Search grounding, Gemini reports the pages it drew on
+// (grounding chunks) and which stretches of its answer each page supports
+// (grounding supports). The answer is a JSON array, so each stretch is
+// matched to the array element it falls in, which gives every event record
+// its own citations.
+interface Span {
+  start: number; // String index, inclusive
+  end: number;   // Exclusive
+}
+
+interface Support extends Span {
+  chunks: number[];
+}
+
+/**
+ * The spans of the elements of the top-level JSON array in `text` that are
+ * objects or arrays, in order. Like extractJsonArray(), the array starts at
+ * the first "[".
+ */
+export function arrayElementSpans(text: string): Span[] {
+    const spans: Span[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = -1;
+    for (let i = Math.max(0, text.indexOf('[')); i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (char === '\\') i++;
+            else if (char === '"') inString = false;
+        } else if (char === '"') {
+            inString = true;
+        } else if (char === '{' || char === '[') {
+            depth++;
+            if (depth === 2) start = i;
+        } else if (char === '}' || char === ']') {
+            if (depth === 2) spans.push({ start, end: i + 1 });
+            depth--;
+            if (depth === 0) break;
+        }
+    }
+    return spans;
+}
+
+/** Maps the UTF-8 byte offsets segments are measured in to string indices. */
+function byteOffsetMapper(text: string): (offset: number) => number {
+    const byteAt: number[] = [0];
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        // A surrogate pair is one four-byte character, counted on its first half.
+        const size = code < 0x80 ? 1 : code < 0x800 ? 2 : code >= 0xd800 && code < 0xdc00 ? 4 : code >= 0xdc00 && code < 0xe000 ? 0 : 3;
+        byteAt.push(byteAt[i] + size);
+    }
+    return (offset) => {
+        let low = 0;
+        let high = text.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (byteAt[mid] < offset) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    };
+}
+
+function segmentSpan(segment: Segment | undefined, text: string, toIndex: (offset: number) => number): Span | null {
+    if (segment?.endIndex !== undefined) {
+        return { start: toIndex(segment.startIndex ?? 0), end: toIndex(segment.endIndex) };
+    }
+    // Older responses only carry the segment text.
+    const start = segment?.text ? text.indexOf(segment.text) : -1;
+    return start === -1 ? null : { start, end: start + segment!.text!.length };
+}
+
+function citationsFor(supports: Support[], chunks: GroundingChunk[]): Citation[] {
+    const citations = new Map<string, Citation>();
+    for (const index of supports.flatMap(s => s.chunks)) {
+        const web = chunks[index]?.web;
+        if (!web?.uri || citations.has(web.uri)) continue;
+        const title = web.title ?? web.domain;
+        citations.set(web.uri, title ? { url: web.uri, title } : { url: web.uri });
+    }
+    return [...citations.values()];
+}
+
+/**
+ * An event is verified when at least one page supports it and the stretch
+ * of the answer giving its date is among the supported ones, so the date
+ * comes from what was retrieved rather than from the model.
+ */
+function verify(record: Record<string, unknown>, span: Span, supports: Support[], citations: Citation[], text: string): Verification {
+    if (citations.length === 0) {
+        return { verified: false, reason: 'No search result backs this event up' };
+    }
+    const dateValue = /"date"\s*:\s*"[^"]*"/.exec(text.slice(span.start, span.end));
+    if (typeof record.date === 'string' && dateValue) {
+        const at = span.start + dateValue.index;
+        const covered = supports.some(s => s.start < at + dateValue[0].length && s.end > at);
+        if (!covered) {
+            return { verified: false, reason: `The cited sources do not back up the date ${record.date}` };
+        }
+    }
+    return { verified: true };
+}
+
+/**
+ * Adds `citations` and `verification` to each object record parsed from
+ * `responseText`. Without grounding metadata every record is unverified.
+ */
+export function groundRecords(records: unknown[], responseText: string, metadata: GroundingMetadata | undefined): unknown[] {
+    const toIndex = byteOffsetMapper(responseText);
+    const supports = (metadata?.groundingSupports ?? []).flatMap((support): Support[] => {
+        const span = segmentSpan(support.segment, responseText, toIndex);
+        return span ? [{ ...span, chunks: support.groundingChunkIndices ?? [] }] : [];
+    });
+    const spans = arrayElementSpans(responseText);
+    let next = 0;
+
+    return records.map(record => {
+        if (typeof record !== 'object' || record === null) return record;
+        const span = spans[next++];
+        if (Array.isArray(record) || !span) return record;
+        const own = supports.filter(s => s.start < span.end && s.end > span.start);
+        const citations = citationsFor(own, metadata?.groundingChunks ?? []);
+        return {
+            ...record,
+            citations,
+            verification: verify(record as Record<string, unknown>, span, own, citations, responseText),
+        };
+    });
+}
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import type { EventType, FinancialEvent, Impact } from '../types';
+import { CACHE_TTL_MS } from '../cache';
+import { buildCalendar } from '../calendar';
+import { datasetKey, getRejectedRecords, ProviderError, windowDays, type DatasetKey, type EventQuery } from '../providers';
+import { MAX_RANGE_DAYS } from '../ranges';
+import { createGeminiProvider } from './gemini';
+import { createResponseCache } from './cache';
+import { createRateLimiter } from './limiter';
+import { loadServerConfig } from './config';
+import { createSmtpMailer } from './mailer';
+import { confirmationMessage, createSubscriptionStore, subscriptionLinks } from './subscriptions';
+import { escapeHtml } from './digest';
+
+// --- SETUP ---
+const config = loadServerConfig();
+const gemini = createGeminiProvider(config.geminiApiKey);
+// Responses are cached per data set and window length, e.g. "macro/upcoming:14".
+const cache = createResponseCache<FinancialEvent[]>(key => CACHE_TTL_MS[key.split(':')[0] as DatasetKey]);
+const cacheKey = (query: EventQuery) => `${datasetKey(query)}:${windowDays(query)}`;
+const limiter = createRateLimiter({ limit: config.rateLimitPerMinute, windowMs: 60 * 1000 });
+const subscriptions = createSubscriptionStore(config.subscriptionsFile);
+const mailer = createSmtpMailer({ host: config.smtpHost, port: config.smtpPort, from: config.mailFrom });
+// Sign-ups send mail, so they get a much smaller allowance than reads.
+const signupLimiter = createRateLimiter({ limit: 5, windowMs: 60 * 60 * 1000 });
+const MAX_BODY_BYTES = 4 * 1024;
+
+// --- HELPERS ---
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(body));
+}
+
+/** A bare page for the links followed from subscription mail. */
+function sendPage(res: ServerResponse, status: number, title: string, body: string) {
+    res.writeHead(status, { 'Content-Type': 'text/html; charset=utf-8', 'Cache-Control': 'no-store' });
+    res.end(`<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1">`
+        + `<title>${escapeHtml(title)}</title></head>`
+        + `<body style="font-family:Inter,Arial,sans-serif;max-width:480px;margin:4rem auto;padding:0 1rem;">`
+        + `<h1 style="font-size:1.25rem;">${escapeHtml(title)}</h1>${body}</body></html>`);
+}
+
+/** The request body as text, or null when it is larger than `MAX_BODY_BYTES`. */
+async function readBody(req: IncomingMessage): Promise<string | null> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += (chunk as Buffer).length;
+        if (size > MAX_BODY_BYTES) return null;
+        chunks.push(chunk as Buffer);
+    }
+    return Buffer.concat(chunks).toString('utf8');
+}
+
+function clientId(req: IncomingMessage): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (config.trustProxy && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress ?? 'unknown';
+}
+
+function corsHeaders(req: IncomingMessage): Record<string, string> {
+    const origin = req.headers.origin;
+    if (!origin) return {};
+    if (config.allowedOrigins.includes('*') || config.allowedOrigins.includes(origin)) {
+        return { 'Access-Control-Allow-Origin': origin, 'Vary': 'Origin' };
+    }
+    return {};
+}
+
+function parseQuery(params: URLSearchParams): EventQuery | null {
+    const type = params.get('type');
+    const window = params.get('window');
+    if ((type !== 'macro' && type !== 'corp') || (window !== 'upcoming' && window !== 'past')) {
+        return null;
+    }
+    const daysParam = params.get('days');
+    if (daysParam === null) return { type, window };
+    const days = Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_RANGE_DAYS) return null;
+    return { type, window, days };
+}
+
+// --- ROUTES ---
+// GET /events?type=<macro|corp>&window=<upcoming|past>[&days=<1-31>]
+async function handleEvents(req: IncomingMessage, res: ServerResponse, params: URLSearchParams) {
+    const cors = corsHeaders(req);
+    const query = parseQuery(params);
+    if (!query) {
+        sendJson(res, 400, { error: `Expected type=macro|corp, window=upcoming|past and optionally days=1-${MAX_RANGE_DAYS}` }, cors);
+        return;
+    }
+
+    const limit = limiter.check(clientId(req));
+    if (!limit.allowed) {
+        const retryAfter = String(Math.ceil(limit.retryAfterMs / 1000));
+        sendJson(res, 429, { error: 'Too many requests' }, { ...cors, 'Retry-After': retryAfter });
+        return;
+    }
+
+    const key = cacheKey(query);
+    try {
+        const result = await cache.get(key, () => gemini.fetchEvents(query));
+        const maxAge = Math.max(0, Math.floor(((cache.expiresAt(key) ?? 0) - Date.now()) / 1000));
+        sendJson(res, 200, result.value, {
+            ...cors,
+            'Cache-Control': `public, max-age=${maxAge}`,
+            'X-Cache': result.status,
+            'X-Fetched-At': new Date(result.fetchedAt).toISOString(),
+            'X-RateLimit-Remaining': String(limit.remaining),
+        });
+    } catch (error) {
+        console.error(`Failed to fetch ${key} events:`, error);
+        // 503 tells the client a retry may help; 502 that the upstream answer was unusable.
+        const transient = error instanceof ProviderError && error.transient;
+        sendJson(res, transient ? 503 : 502, { error: `Could not fetch ${key} events` }, cors);
+    }
+}
+
+// GET /calendar.ics?type=macro,corp&impact=High,Medium
+// A subscribable feed of upcoming events; both filters are optional.
+async function handleCalendar(req: IncomingMessage, res: ServerResponse, params: URLSearchParams) {
+    const limit = limiter.check(clientId(req));
+    if (!limit.allowed) {
+        sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+        return;
+    }
+
+    const listParam = (name: string) => params.get(name)?.split(',').map(v => v.trim().toLowerCase()).filter(Boolean) ?? [];
+    const types = listParam('type');
+    const impacts = listParam('impact');
+    const queries: EventQuery[] = (['macro', 'corp'] as EventType[])
+        .filter(type => types.length === 0 || types.includes(type))
+        .map(type => ({ type, window: 'upcoming' }));
+
+    try {
+        const results = await Promise.all(queries.map(query => cache.get(cacheKey(query), () => gemini.fetchEvents(query))));
+        const events = results
+            .flatMap(result => result.value)
+            .filter(event => impacts.length === 0 || (event.impact && impacts.includes(event.impact.toLowerCase() as Lowercase<Impact>)))
+            .sort((a, b) => a.datetime.getTime() - b.datetime.getTime());
+
+        res.writeHead(200, {
+            ...corsHeaders(req),
+            'Content-Type': 'text/calendar; charset=utf-8',
+            'Content-Disposition': 'inline; filename="financial-events.ics"',
+            'Cache-Control': 'public, max-age=900',
+        });
+        res.end(buildCalendar(events));
+    } catch (error) {
+        console.error('Failed to build calendar feed:', error);
+        const transient = error instanceof ProviderError && error.transient;
+        sendJson(res, transient ? 503 : 502, { error: 'Could not build calendar feed' }, corsHeaders(req));
+    }
+}
+
+// POST /subscriptions  {"email": "..."}
+// Starts a double opt-in: the address gets a confirmation link and nothing
+// else until it is followed. Known addresses get the same answer, so the
+// route does not reveal who is subscribed.
+async function handleSubscribe(req: IncomingMessage, res: ServerResponse) {
+    const cors = corsHeaders(req);
+    const limit = signupLimiter.check(clientId(req));
+    if (!limit.allowed) {
+        sendJson(res, 429, { error: 'Too many sign-ups, try again later' }, { ...cors, 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) });
+        return;
+    }
+
+    const body = await readBody(req);
+    if (body === null) {
+        sendJson(res, 413, { error: 'Request body too large' }, cors);
+        return;
+    }
+    let email: unknown;
+    try {
+        email = JSON.parse(body).email;
+    } catch {
+        sendJson(res, 400, { error: 'Expected a JSON body with an "email" field' }, cors);
+        return;
+    }
+
+    const result = await subscriptions.subscribe(email);
+    if (result.ok === false) {
+        sendJson(res, 400, { error: result.error }, cors);
+        return;
+    }
+    if (result.subscriber.status === 'pending') {
+        try {
+            await mailer.send(confirmationMessage(result.subscriber, subscriptionLinks(config.publicUrl, result.subscriber)));
+        } catch (error) {
+            console.error('Failed to send confirmation mail:', error);
+            sendJson(res, 502, { error: 'Could not send the confirmation email' }, cors);
+            return;
+        }
+    }
+    sendJson(res, 202, { status: 'pending' }, cors);
+}
+
+// GET  /subscriptions/confirm?token=...  asks first, since mail scanners follow links
+// POST /subscriptions/confirm?token=...  confirms
+async function handleConfirm(req: IncomingMessage, res: ServerResponse, params: URLSearchParams) {
+    const token = params.get('token') ?? '';
+    const expired = () => sendPage(res, 404, 'Link expired', '<p>This confirmation link is no longer valid. Sign up again from the dashboard to get a new one.</p>');
+    if (req.method === 'GET') {
+        const pending = await subscriptions.findByConfirmToken(token);
+        if (!pending) {
+            expired();
+            return;
+        }
+        sendPage(res, 200, 'Confirm subscription',
+            `<p>Send the weekly digest to ${escapeHtml(pending.email)}?</p>`
+            + `<form method="post" action="?${escapeHtml(new URLSearchParams({ token }).toString())}"><button type="submit">Confirm</button></form>`);
+        return;
+    }
+
+    const subscriber = await subscriptions.confirm(token);
+    if (!subscriber) {
+        expired();
+        return;
+    }
+    sendPage(res, 200, 'Subscription confirmed',
+        `<p>The weekly digest will be sent to ${escapeHtml(subscriber.email)}. Every digest has an unsubscribe link.</p>`
+        + `<p><a href="${escapeHtml(config.dashboardUrl)}">Back to the dashboard</a></p>`);
+}
+
+// GET  /subscriptions/unsubscribe?token=...  asks first, since mail scanners follow links
+// POST /subscriptions/unsubscribe?token=...  unsubscribes (also the one-click target)
+async function handleUnsubscribe(req: IncomingMessage, res: ServerResponse, params: URLSearchParams) {
+    const token = params.get('token') ?? '';
+    if (req.method === 'GET') {
+        const subscriber = await subscriptions.findByUnsubscribeToken(token);
+        if (!subscriber) {
+            sendPage(res, 404, 'Not subscribed', '<p>This address is not subscribed, or has already unsubscribed.</p>');
+            return;
+        }
+        sendPage(res, 200, 'Unsubscribe',
+            `<p>Stop sending the weekly digest to ${escapeHtml(subscriber.email)}?</p>`
+            + `<form method="post" action="?${escapeHtml(new URLSearchParams({ token }).toString())}"><button type="submit">Unsubscribe</button></form>`);
+        return;
+    }
+
+    const subscriber = await subscriptions.unsubscribe(token);
+    sendPage(res, subscriber ? 200 : 404, subscriber ? 'Unsubscribed' : 'Not subscribed', subscriber
+        ? `<p>${escapeHtml(subscriber.email)} will get no more mail from Financial Events Radar.</p>`
+        : '<p>This address is not subscribed, or has already unsubscribed.</p>');
+}
+
+async function handleRequest(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204, { ...corsHeaders(req), 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Accept, Content-Type' });
+        res.end();
+        return;
+    }
+    if (req.method === 'POST') {
+        switch (url.pathname) {
+            case '/subscriptions':
+                return handleSubscribe(req, res);
+            case '/subscriptions/confirm':
+                return handleConfirm(req, res, url.searchParams);
+            case '/subscriptions/unsubscribe':
+                return handleUnsubscribe(req, res, url.searchParams);
+            default:
+                return sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'GET' });
+        }
+    }
+    if (req.method !== 'GET') {
+        sendJson(res, 405, { error: 'Method not allowed' }, { Allow: 'GET, POST' });
+        return;
+    }
+
+    switch (url.pathname) {
+        case '/events':
+            return handleEvents(req, res, url.searchParams);
+        case '/calendar.ics':
+            return handleCalendar(req, res, url.searchParams);
+        case '/subscriptions/confirm':
+            return handleConfirm(req, res, url.searchParams);
+        case '/subscriptions/unsubscribe':
+            return handleUnsubscribe(req, res, url.searchParams);
+        case '/health':
+            return sendJson(res, 200, { ok: true });
+        case '/debug/rejected':
+            // Records the Gemini responses contained but the schema rejected.
+            return sendJson(res, 200, getRejectedRecords(), corsHeaders(req));
+        default:
+            return sendJson(res, 404, { error: 'Not found' });
+    }
+}
+
+// --- START ---
+createServer((req, res) => {
+    handleRequest(req, res).catch(error => {
+        console.error('Unhandled request error:', error);
+        if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error' });
+    });
+}).listen(config.port, () => {
+    console.log(`Financial Events Radar proxy listening on http://localhost:${config.port}`);
+});
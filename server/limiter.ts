@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- RATE LIMITING ---
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterMs: number; // Time until the client's window resets
+}
+
+export interface RateLimiter {
+  check(clientId: string, now?: number): RateLimitResult;
+}
+
+/**
+ * A fixed-window limiter: each client may make `limit` requests per
+ * `windowMs`. Expired windows are swept as new ones are opened, so memory
+ * stays proportional to the number of recently active clients.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+    const windows = new Map<string, { startedAt: number; count: number }>();
+
+    function sweep(now: number) {
+        for (const [clientId, window] of windows) {
+            if (now - window.startedAt >= windowMs) windows.delete(clientId);
+        }
+    }
+
+    return {
+        check(clientId: string, now: number = Date.now()): RateLimitResult {
+            let window = windows.get(clientId);
+            if (!window || now - window.startedAt >= windowMs) {
+                sweep(now);
+                window = { startedAt: now, count: 0 };
+                windows.set(clientId, window);
+            }
+            window.count++;
+
+            const retryAfterMs = window.startedAt + windowMs - now;
+            return {
+                allowed: window.count <= limit,
+                remaining: Math.max(0, limit - window.count),
+                retryAfterMs,
+            };
+        },
+    };
+}
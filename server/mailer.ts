@@ -0,0 +1,125 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { connect } from 'node:net';
+import { hostname } from 'node:os';
+import { randomBytes } from 'node:crypto';
+
+// --- MAIL ---
+// A minimal SMTP client for handing mail to a local relay (Postfix, or a
+// stand-in such as `npm run mail-sink` during development). It does not
+// speak TLS or AUTH; the relay is expected to deliver onwards.
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  headers?: Record<string, string>; // Extra headers, e.g. List-Unsubscribe
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  from: string; // "Name <address>" or a bare address
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+/** The bare address in "Name <address>". */
+function envelopeAddress(mailbox: string): string {
+    return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim();
+}
+
+/** A header value, encoded (RFC 2047) when it is not plain ASCII. */
+function encodeHeader(value: string): string {
+    return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+function base64Body(text: string): string {
+    // Text parts use CRLF line endings once decoded, as MIME requires.
+    return Buffer.from(text.replace(/\r?\n/g, '\r\n'), 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+}
+
+function textPart(type: 'plain' | 'html', body: string): string {
+    return `Content-Type: text/${type}; charset=utf-8\r\nContent-Transfer-Encoding: base64\r\n\r\n${base64Body(body)}`;
+}
+
+/** The message as sent after DATA: headers, then a text or multipart/alternative body. */
+export function formatMessage(from: string, message: MailMessage, date: Date = new Date()): string {
+    const domain = envelopeAddress(from).split('@')[1] ?? 'localhost';
+    const headers: Record<string, string> = {
+        'From': from,
+        'To': message.to,
+        'Subject': encodeHeader(message.subject),
+        'Date': date.toUTCString(),
+        'Message-ID': `<${randomBytes(12).toString('hex')}@${domain}>`,
+        'MIME-Version': '1.0',
+        ...message.headers,
+    };
+    const head = Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\r\n');
+    if (!message.html) return `${head}\r\n${textPart('plain', message.text)}`;
+
+    const boundary = `=_${randomBytes(12).toString('hex')}`;
+    return [
+        `${head}\r\nContent-Type: multipart/alternative; boundary="${boundary}"\r\n`,
+        `--${boundary}\r\n${textPart('plain', message.text)}`,
+        `--${boundary}\r\n${textPart('html', message.html)}`,
+        `--${boundary}--`,
+    ].join('\r\n');
+}
+
+/** Sends each message over its own SMTP connection. */
+export function createSmtpMailer({ host, port, from }: SmtpOptions): Mailer {
+    return {
+        send(message) {
+            return new Promise((resolve, reject) => {
+                const socket = connect({ host, port });
+                socket.setEncoding('utf8');
+                socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error(`SMTP server ${host}:${port} timed out`)));
+
+                // Each step: the reply code it waits for, then the line to send next.
+                const body = formatMessage(from, message).replace(/^\./gm, '..');
+                const steps: Array<[number, string]> = [
+                    [220, `EHLO ${hostname()}`],
+                    [250, `MAIL FROM:<${envelopeAddress(from)}>`],
+                    [250, `RCPT TO:<${envelopeAddress(message.to)}>`],
+                    [250, 'DATA'],
+                    [354, `${body}\r\n.`],
+                    [250, 'QUIT'],
+                ];
+                let buffer = '';
+                let done = false;
+
+                socket.on('data', (chunk: string) => {
+                    buffer += chunk;
+                    let end: number;
+                    while ((end = buffer.indexOf('\r\n')) !== -1) {
+                        const line = buffer.slice(0, end);
+                        buffer = buffer.slice(end + 2);
+                        if (line[3] === '-') continue; // Multi-line reply, more to come
+                        const step = steps.shift();
+                        if (!step) continue;
+                        const code = Number(line.slice(0, 3));
+                        // RCPT may also be answered 251 (forwarded).
+                        if (code !== step[0] && !(step[1] === 'DATA' && code === 251)) {
+                            socket.destroy(new Error(`SMTP server refused the message: ${line}`));
+                            return;
+                        }
+                        socket.write(`${step[1]}\r\n`);
+                        if (step[1] === 'QUIT') {
+                            done = true;
+                            socket.end();
+                        }
+                    }
+                });
+                socket.on('error', reject);
+                socket.on('close', () => done ? resolve() : reject(new Error('SMTP connection closed before the message was accepted')));
+            });
+        },
+    };
+}
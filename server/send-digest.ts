@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EventType } from '../types';
+import { createGeminiProvider } from './gemini';
+import { loadServerConfig } from './config';
+import { createSmtpMailer } from './mailer';
+import { createSubscriptionStore, subscriptionLinks, unsubscribeHeaders } from './subscriptions';
+import { buildDigest, DIGEST_DAYS } from './digest';
+
+// --- WEEKLY DIGEST ---
+// Mails the coming week's events to every confirmed subscriber. Meant to be
+// run weekly by cron or a scheduler, e.g. on Sunday evening:
+//
+//   npm run digest              send to every confirmed subscriber
+//   npm run digest -- --dry-run print the plain-text digest instead
+async function main() {
+    const dryRun = process.argv.includes('--dry-run');
+    const config = loadServerConfig();
+    const gemini = createGeminiProvider(config.geminiApiKey);
+    const events = (await Promise.all((['macro', 'corp'] as EventType[])
+        .map(type => gemini.fetchEvents({ type, window: 'upcoming', days: DIGEST_DAYS })))).flat();
+    const now = new Date();
+    const digestFor = (unsubscribeUrl: string) => buildDigest(events, {
+        now, timeZone: config.digestTimeZone, dashboardUrl: config.dashboardUrl, unsubscribeUrl,
+    });
+
+    if (dryRun) {
+        const digest = digestFor(`${config.publicUrl}/subscriptions/unsubscribe?token=...`);
+        console.log(`Subject: ${digest.subject}\n\n${digest.text}`);
+        return;
+    }
+
+    const subscribers = await createSubscriptionStore(config.subscriptionsFile).confirmed();
+    const mailer = createSmtpMailer({ host: config.smtpHost, port: config.smtpPort, from: config.mailFrom });
+    let failed = 0;
+    // One at a time, so a relay that throttles is not flooded.
+    for (const subscriber of subscribers) {
+        const links = subscriptionLinks(config.publicUrl, subscriber);
+        const digest = digestFor(links.unsubscribe);
+        try {
+            await mailer.send({ to: subscriber.email, ...digest, headers: unsubscribeHeaders(links) });
+        } catch (error) {
+            failed++;
+            console.error(`Failed to send the digest to ${subscriber.email}:`, error);
+        }
+    }
+    console.log(`Sent the digest to ${subscribers.length - failed} of ${subscribers.length} subscribers.`);
+    if (failed > 0) process.exitCode = 1;
+}
+
+main().catch(error => {
+    console.error('Could not send the digest:', error);
+    process.exitCode = 1;
+});
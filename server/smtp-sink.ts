@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createServer, type Server } from 'node:net';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+
+// --- SMTP SINK ---
+// A local stand-in for a mail relay: it accepts every message and writes it
+// to `mail/` as an .eml file instead of delivering it. Point SMTP_HOST and
+// SMTP_PORT at it (the defaults already are) to try subscriptions and
+// digests without sending real mail.
+//
+//   npm run mail-sink
+export interface ReceivedMail {
+  recipients: string[]; // From RCPT TO
+  data: string;         // The message as sent after DATA, dot-stuffing undone
+}
+
+/** An SMTP server, not yet listening, that hands each message it accepts to `onMessage`. */
+export function createSmtpSink(onMessage: (mail: ReceivedMail) => void): Server {
+    return createServer(socket => {
+        socket.setEncoding('utf8');
+        let buffer = '';
+        let data: string[] | null = null; // Lines of the message while in DATA
+        let recipients: string[] = [];
+        const reply = (line: string) => socket.write(`${line}\r\n`);
+
+        socket.on('data', (chunk: string) => {
+            buffer += chunk;
+            let end: number;
+            while ((end = buffer.indexOf('\r\n')) !== -1) {
+                const line = buffer.slice(0, end);
+                buffer = buffer.slice(end + 2);
+
+                if (data) {
+                    if (line !== '.') {
+                        data.push(line.startsWith('..') ? line.slice(1) : line);
+                        continue;
+                    }
+                    onMessage({ recipients, data: data.join('\r\n') });
+                    data = null;
+                    recipients = [];
+                    reply('250 OK');
+                    continue;
+                }
+
+                const command = line.slice(0, 4).toUpperCase();
+                if (command === 'EHLO' || command === 'HELO') reply('250 smtp-sink');
+                else if (command === 'MAIL' || command === 'RSET' || command === 'NOOP') reply('250 OK');
+                else if (command === 'RCPT') {
+                    recipients.push(/<([^>]*)>/.exec(line)?.[1] ?? line.slice(8));
+                    reply('250 OK');
+                } else if (command === 'DATA') {
+                    data = [];
+                    reply('354 End data with <CR><LF>.<CR><LF>');
+                } else if (command === 'QUIT') {
+                    reply('221 Bye');
+                    socket.end();
+                } else {
+                    reply('502 Command not implemented');
+                }
+            }
+        });
+        socket.on('error', error => console.warn('SMTP sink connection error:', error));
+        reply('220 smtp-sink ready');
+    });
+}
+
+// Run as a script: write every message to a file.
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    const port = Number(process.env.SMTP_PORT) || 1025;
+    const outDir = process.env.MAIL_SINK_DIR || 'mail';
+    let received = 0;
+
+    createSmtpSink(({ recipients, data }) => {
+        const file = join(outDir, `${Date.now()}-${++received}.eml`);
+        mkdirSync(outDir, { recursive: true });
+        writeFileSync(file, data);
+        const subject = /^Subject: (.*)$/m.exec(data)?.[1] ?? '(no subject)';
+        console.log(`To ${recipients.join(', ')}: ${subject} → ${file}`);
+    }).listen(port, () => {
+        console.log(`SMTP sink listening on port ${port}, writing messages to ${outDir}/`);
+    });
+}
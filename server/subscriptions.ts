@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { MailMessage } from './mailer';
+import { escapeHtml } from './digest';
+
+// --- SUBSCRIPTIONS ---
+// Digest subscribers, kept in a JSON file. Subscribing is double opt-in: an
+// address only receives digests once the link mailed to it has been followed.
+export interface Subscriber {
+  email: string;
+  status: 'pending' | 'confirmed';
+  confirmToken?: string;    // Cleared once confirmed
+  unsubscribeToken: string; // Carried by every mail sent to the address
+  createdAt: string;        // ISO timestamps
+  confirmedAt?: string;
+}
+
+export type SubscribeResult =
+  | { ok: true; subscriber: Subscriber }
+  | { ok: false; error: string };
+
+export interface SubscriptionStore {
+  subscribe(email: unknown, now?: Date): Promise<SubscribeResult>;
+  confirm(token: string, now?: Date): Promise<Subscriber | null>;
+  findByConfirmToken(token: string, now?: Date): Promise<Subscriber | null>;
+  unsubscribe(token: string): Promise<Subscriber | null>;
+  findByUnsubscribeToken(token: string): Promise<Subscriber | null>;
+  confirmed(): Promise<Subscriber[]>;
+}
+
+// Unconfirmed sign-ups are forgotten after a week, link and all.
+const CONFIRM_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_EMAIL_LENGTH = 254;
+const EMAIL_PATTERN = /^[^\s@<>()[\]\\,;:"]{1,64}@(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+/**
+ * The address in the form it is stored and matched in (trimmed, lower-case),
+ * or null when it is not a plausible address. Whitespace and angle brackets
+ * are refused, so an address can never smuggle extra mail headers.
+ */
+export function normalizeEmail(input: unknown): string | null {
+    if (typeof input !== 'string') return null;
+    const email = input.trim().toLowerCase();
+    if (email.length > MAX_EMAIL_LENGTH || !EMAIL_PATTERN.test(email)) return null;
+    return email;
+}
+
+const newToken = () => randomBytes(24).toString('base64url');
+
+/**
+ * A store backed by the JSON file at `path`, created on first write. The
+ * file is read once; writes are queued and replace the file atomically.
+ */
+export function createSubscriptionStore(path: string): SubscriptionStore {
+    let subscribers: Subscriber[] | null = null;
+    let writing: Promise<void> = Promise.resolve();
+
+    async function load(): Promise<Subscriber[]> {
+        if (subscribers) return subscribers;
+        try {
+            const data = JSON.parse(await readFile(path, 'utf8'));
+            subscribers = Array.isArray(data) ? data : [];
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            subscribers = [];
+        }
+        return subscribers;
+    }
+
+    function save(): Promise<void> {
+        const snapshot = JSON.stringify(subscribers, null, 2);
+        writing = writing.then(async () => {
+            await mkdir(dirname(path), { recursive: true });
+            await writeFile(`${path}.tmp`, snapshot, 'utf8');
+            await rename(`${path}.tmp`, path);
+        });
+        return writing;
+    }
+
+    function dropExpired(list: Subscriber[], now: Date) {
+        const kept = list.filter(s => s.status === 'confirmed' || now.getTime() - Date.parse(s.createdAt) < CONFIRM_TTL_MS);
+        list.splice(0, list.length, ...kept);
+    }
+
+    return {
+        async subscribe(input, now = new Date()) {
+            const email = normalizeEmail(input);
+            if (!email) return { ok: false, error: 'Enter a valid email address' };
+            const list = await load();
+            dropExpired(list, now);
+
+            const existing = list.find(s => s.email === email);
+            if (existing?.status === 'confirmed') return { ok: true, subscriber: existing };
+            // Signing up again while pending sends a fresh link.
+            const subscriber: Subscriber = {
+                email,
+                status: 'pending',
+                confirmToken: newToken(),
+                unsubscribeToken: existing?.unsubscribeToken ?? newToken(),
+                createdAt: now.toISOString(),
+            };
+            if (existing) list.splice(list.indexOf(existing), 1, subscriber);
+            else list.push(subscriber);
+            await save();
+            return { ok: true, subscriber };
+        },
+
+        async confirm(token, now = new Date()) {
+            const list = await load();
+            dropExpired(list, now);
+            const subscriber = token ? list.find(s => s.confirmToken === token) : undefined;
+            if (!subscriber) return null;
+            subscriber.status = 'confirmed';
+            subscriber.confirmedAt = now.toISOString();
+            delete subscriber.confirmToken;
+            await save();
+            return subscriber;
+        },
+
+        async findByConfirmToken(token, now = new Date()) {
+            const list = await load();
+            dropExpired(list, now);
+            return (token && list.find(s => s.confirmToken === token)) || null;
+        },
+
+        async unsubscribe(token) {
+            const list = await load();
+            const index = token ? list.findIndex(s => s.unsubscribeToken === token) : -1;
+            if (index === -1) return null;
+            // Nothing is kept about an address once it leaves.
+            const [subscriber] = list.splice(index, 1);
+            await save();
+            return subscriber;
+        },
+
+        async findByUnsubscribeToken(token) {
+            return (token && (await load()).find(s => s.unsubscribeToken === token)) || null;
+        },
+
+        async confirmed() {
+            return (await load()).filter(s => s.status === 'confirmed');
+        },
+    };
+}
+
+// --- SUBSCRIPTION MAIL ---
+export interface SubscriptionLinks {
+  confirm?: string;
+  unsubscribe: string;
+}
+
+/** Links into the proxy's /subscriptions routes for `subscriber`. */
+export function subscriptionLinks(publicUrl: string, subscriber: Subscriber): SubscriptionLinks {
+    const link = (path: string, token: string) => `${publicUrl}/subscriptions/${path}?${new URLSearchParams({ token })}`;
+    return {
+        confirm: subscriber.confirmToken ? link('confirm', subscriber.confirmToken) : undefined,
+        unsubscribe: link('unsubscribe', subscriber.unsubscribeToken),
+    };
+}
+
+/** One-click unsubscribe headers (RFC 8058), for every mail to a subscriber. */
+export function unsubscribeHeaders(links: SubscriptionLinks): Record<string, string> {
+    return {
+        'List-Unsubscribe': `<${links.unsubscribe}>`,
+        'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click',
+    };
+}
+
+/** The mail asking a new subscriber to confirm their address. */
+export function confirmationMessage(subscriber: Subscriber, links: SubscriptionLinks): MailMessage {
+    const confirm = links.confirm ?? '';
+    return {
+        to: subscriber.email,
+        subject: 'Confirm your Financial Events Radar subscription',
+        text: [
+            'Someone, hopefully you, asked for the Financial Events Radar weekly digest at this address.',
+            '',
+            `Confirm the subscription: ${confirm}`,
+            '',
+            'If it was not you, ignore this mail; nothing will be sent unless the link is followed.',
+        ].join('\n'),
+        html: '<!DOCTYPE html><html><body style="font-family:Inter,Arial,sans-serif;color:#111827;">'
+            + '<p>Someone, hopefully you, asked for the Financial Events Radar weekly digest at this address.</p>'
+            + `<p><a href="${escapeHtml(confirm)}">Confirm the subscription</a></p>`
+            + '<p style="color:#6b7280;">If it was not you, ignore this mail; nothing will be sent unless the link is followed.</p>'
+            + '</body></html>',
+        headers: unsubscribeHeaders(links),
+    };
+}
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FinancialEvent, Sentiment } from './types';
+
+// --- FIGURE PARSING ---
+export type Scale = '' | 'K' | 'M' | 'B' | 'T';
+
+export interface ParsedFigure {
+  value: number;    // In base units, e.g. "-15K" -> -15000
+  unit: string;     // "%", a currency symbol, or "" for plain numbers
+  scale: Scale;     // Magnitude suffix as written, kept for display
+  decimals: number; // Decimal places as written
+  label?: string;   // Prefix such as "EPS" in "EPS: $1.30"
+}
+
+const SCALE_FACTORS: Record<Scale, number> = { '': 1, K: 1e3, M: 1e6, B: 1e9, T: 1e12 };
+const CURRENCY_SYMBOLS = '$€£¥₹';
+
+const FIGURE_PATTERN = new RegExp(
+    '^(?:([A-Za-z][A-Za-z /&-]*?)\\s*:\\s*)?' +   // Optional label, e.g. "EPS:"
+    '([+\\-−]?)\\s*' +                            // Sign
+    `([${CURRENCY_SYMBOLS}])?\\s*` +              // Currency before the number
+    '([+\\-−]?)' +                                // Sign after the currency, e.g. "$-0.12"
+    '(\\d[\\d,]*(?:\\.\\d+)?|\\.\\d+)\\s*' +      // Number, optionally with thousands separators
+    '(K|M|B|T|bn|mn|k)?\\s*' +                    // Magnitude
+    '(%)?$',
+);
+
+/**
+ * Parses figures as they appear in calendars: "3.2%", "-15K", "1.25M",
+ * "$90.5B", "EPS: $1.30", "(0.12)". Returns null for "N/A" and anything that
+ * is not a single number.
+ */
+export function parseFigure(text: string | undefined): ParsedFigure | null {
+    if (!text) return null;
+    let input = text.trim();
+    let negative = false;
+
+    // Accounting style: "(0.12)" or "EPS: ($0.12)"
+    const parenthesised = input.match(/^(.*?)\((.+)\)$/);
+    if (parenthesised && !/[()]/.test(parenthesised[2])) {
+        input = `${parenthesised[1]}${parenthesised[2]}`;
+        negative = true;
+    }
+
+    const match = input.match(FIGURE_PATTERN);
+    if (!match) return null;
+    const [, label, signBefore, currency, signAfter, digits, magnitude, percent] = match;
+
+    const scaleMap: Record<string, Scale> = { k: 'K', K: 'K', M: 'M', mn: 'M', B: 'B', bn: 'B', T: 'T' };
+    const scale = magnitude ? scaleMap[magnitude] : '';
+    const sign = [signBefore, signAfter].some(s => s === '-' || s === '−') ? -1 : 1;
+    const number = Number(digits.replace(/,/g, ''));
+    if (!Number.isFinite(number)) return null;
+
+    return {
+        value: sign * (negative ? -1 : 1) * number * SCALE_FACTORS[scale],
+        unit: percent ? '%' : currency ?? '',
+        scale,
+        decimals: digits.split('.')[1]?.length ?? 0,
+        label: label?.trim() || undefined,
+    };
+}
+
+// --- INDICATOR DIRECTION ---
+// Indicators where a lower reading than expected is the better outcome.
+// Everything else (growth, payrolls, sales, earnings) is "higher is better".
+const LOWER_IS_BETTER: RegExp[] = [
+    /unemployment/i,
+    /jobless|initial claims|continuing claims|claimant count/i,
+    /\bcpi\b|\bhicp\b|\bppi\b|\bpce\b.*price|price index|inflation/i,
+    /\bdeficit\b/i,
+];
+
+export type Direction = 'higher' | 'lower';
+
+export function indicatorDirection(event: Pick<FinancialEvent, 'type' | 'name'>): Direction {
+    if (event.type === 'corp') return 'higher';
+    return LOWER_IS_BETTER.some(pattern => pattern.test(event.name)) ? 'lower' : 'higher';
+}
+
+// --- SURPRISE ---
+export interface Surprise {
+  absolute: number;        // actual - expected, in base units
+  percent: number | null;  // Relative to |expected|; null when expected is 0
+  sentiment: Sentiment;
+  label: string;           // e.g. "+0.1 pp (+33.3%)" or "+$0.05 (+4.0%)"
+}
+
+function formatSigned(value: number, figure: ParsedFigure): string {
+    const sign = value > 0 ? '+' : value < 0 ? '−' : '±';
+    const scaled = Math.abs(value) / SCALE_FACTORS[figure.scale];
+    const number = scaled.toFixed(figure.decimals);
+    if (figure.unit === '%') return `${sign}${number} pp`;
+    const currency = figure.unit;
+    return `${sign}${currency}${number}${figure.scale}`;
+}
+
+/**
+ * Compares an actual figure with the expected one (forecast for macro,
+ * analyst prediction for earnings). Returns null when either side is missing
+ * or the two are not comparable (different units or labels).
+ */
+export function computeSurprise(event: FinancialEvent): Surprise | null {
+    const expectedText = event.type === 'macro' ? event.forecast : event.analystPrediction;
+    const actual = parseFigure(event.actual);
+    const expected = parseFigure(expectedText);
+    if (!actual || !expected) return null;
+    if (actual.unit !== expected.unit) return null;
+    if (actual.label && expected.label && actual.label.toLowerCase() !== expected.label.toLowerCase()) return null;
+
+    const absolute = actual.value - expected.value;
+    const percent = expected.value !== 0 ? (absolute / Math.abs(expected.value)) * 100 : null;
+
+    // Differences below the precision the figures were written with are noise.
+    const precision = Math.pow(10, -Math.max(actual.decimals, expected.decimals)) * SCALE_FACTORS[actual.scale] / 2;
+    let sentiment: Sentiment = 'neutral';
+    if (Math.abs(absolute) >= precision) {
+        const better = indicatorDirection(event) === 'higher' ? absolute > 0 : absolute < 0;
+        sentiment = better ? 'good' : 'bad';
+    }
+
+    const display: ParsedFigure = { ...actual, decimals: Math.max(actual.decimals, expected.decimals) };
+    const percentLabel = percent !== null ? ` (${percent >= 0 ? '+' : '−'}${Math.abs(percent).toFixed(1)}%)` : '';
+    return {
+        absolute,
+        percent,
+        sentiment,
+        label: `${formatSigned(absolute, display)}${percentLabel}`,
+    };
+}
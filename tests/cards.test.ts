@@ -0,0 +1,191 @@
+// @vitest-environment happy-dom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { eventIdentity } from '../events';
+import { groupByDay, syncDayGroups, type DayGroupOptions } from '../cards';
+
+const DAY_LABEL: Intl.DateTimeFormatOptions = { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' };
+
+function macro(name: string, iso: string, fields: Partial<FinancialEvent> = {}): FinancialEvent {
+    return { name, description: `${name} description`, type: 'macro', hasTime: true, impact: 'High', datetime: new Date(iso), ...fields };
+}
+
+// Labels follow the runtime's locale, so expectations are formatted the same way.
+const dayOf = (iso: string, timeZone: string) => new Date(iso).toLocaleDateString(undefined, { ...DAY_LABEL, timeZone });
+const timeOf = (iso: string, timeZone: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', timeZone });
+const cardNames = (root: ParentNode) => [...root.querySelectorAll('.event-open')].map(el => el.textContent);
+const dayLabels = (root: ParentNode) => [...root.querySelectorAll<HTMLElement>('.day-group')].map(el => el.dataset.day);
+
+describe('groupByDay', () => {
+    const events = [
+        macro('Tokyo CPI', '2026-10-20T23:30:00Z'),
+        macro('US Retail Sales', '2026-10-21T12:30:00Z'),
+        macro('UK GDP', '2026-10-22T06:00:00Z'),
+    ];
+
+    it('starts days at midnight in the display time zone', () => {
+        const utc = groupByDay(events, { isPast: false, timeZone: 'UTC' });
+        expect(utc.map(day => day.cards.map(c => c.event.name))).toEqual([['Tokyo CPI'], ['US Retail Sales'], ['UK GDP']]);
+        expect(utc[0].label).toBe(dayOf('2026-10-20T12:00:00Z', 'UTC'));
+
+        // 23:30 UTC is already the next morning in Tokyo.
+        const tokyo = groupByDay(events, { isPast: false, timeZone: 'Asia/Tokyo' });
+        expect(tokyo.map(day => day.cards.map(c => c.event.name))).toEqual([['Tokyo CPI', 'US Retail Sales'], ['UK GDP']]);
+        expect(tokyo[0].label).toBe(dayOf('2026-10-21T12:00:00Z', 'UTC'));
+    });
+
+    it('keeps an event without a time on its own date west of UTC', () => {
+        // Stored at midnight UTC, which is still the evening before in New York.
+        const earnings: FinancialEvent = { name: 'Acme Corp (ACME)', description: '', type: 'corp', hasTime: false, datetime: new Date('2026-10-21T00:00:00Z') };
+        const days = groupByDay([...events, earnings], { isPast: false, timeZone: 'America/New_York' });
+        expect(days.map(day => day.date)).toEqual(['2026-10-20', '2026-10-21', '2026-10-22']);
+        expect(days.map(day => day.cards.map(c => c.event.name))).toEqual([['Tokyo CPI'], ['US Retail Sales', 'Acme Corp (ACME)'], ['UK GDP']]);
+        expect(days[1].label).toBe(dayOf('2026-10-21T12:00:00Z', 'UTC'));
+    });
+
+    it('lists past days most recent first', () => {
+        const past = groupByDay(events, { isPast: true, timeZone: 'UTC' });
+        expect(past.map(day => day.cards[0].event.name)).toEqual(['UK GDP', 'US Retail Sales', 'Tokyo CPI']);
+        expect(past.every(day => day.cards.every(card => card.isPast))).toBe(true);
+    });
+
+    it('passes each card its changes and session label', () => {
+        const options: DayGroupOptions = {
+            isPast: false,
+            timeZone: 'UTC',
+            changesFor: key => key === eventIdentity(events[1]) ? ['forecast'] : [],
+            sessionLabel: event => `${event.name} session`,
+        };
+        const cards = groupByDay(events, options).flatMap(day => day.cards);
+        expect(cards.map(card => card.changedFields)).toEqual([[], ['forecast'], []]);
+        expect(cards[2].sessionLabel).toBe('UK GDP session');
+    });
+});
+
+describe('syncDayGroups', () => {
+    let column: HTMLElement;
+    const options: DayGroupOptions = { isPast: false, timeZone: 'UTC' };
+    const render = (events: FinancialEvent[], opts: DayGroupOptions = options) =>
+        syncDayGroups(column, groupByDay(events, opts), !opts.isPast);
+
+    beforeEach(() => {
+        column = document.createElement('div');
+        document.body.replaceChildren(column);
+    });
+
+    it('renders model text as text, never as markup', () => {
+        const hostile = macro('<img src=x onerror="alert(1)">', '2026-10-21T12:30:00Z', {
+            description: '<script>alert(2)</script>',
+            forecast: '<b>0.3%</b>',
+            source: '"><svg onload=alert(3)>',
+        });
+        render([hostile]);
+
+        expect(column.querySelector('img, script, b, svg[onload]')).toBeNull();
+        expect(cardNames(column)).toEqual(['<img src=x onerror="alert(1)">']);
+        expect(column.querySelector<HTMLElement>('.event-name')!.dataset.description).toBe('<script>alert(2)</script>');
+        expect(column.querySelector('.event-source')!.textContent).toBe('Source: "><svg onload=alert(3)>');
+        expect([...column.querySelectorAll('.figure-value')].map(el => el.textContent)).toEqual(['—', '<b>0.3%</b>', '—']);
+    });
+
+    it('renders figures, time, region and countdown', () => {
+        render([macro('CPI m/m', '2026-10-21T12:30:00Z', { currency: 'USD', country: 'US', forecast: '0.3%', previous: '0.2%' })]);
+        const card = column.querySelector<HTMLElement>('.event-card')!;
+
+        expect(card.className).toBe('event-card macro impact-high');
+        expect(card.querySelector('.event-time')!.textContent).toBe(timeOf('2026-10-21T12:30:00Z', 'UTC'));
+        expect(card.querySelector('.event-region')!.textContent).toBe('USD');
+        expect(card.querySelector<HTMLElement>('.event-countdown')!.dataset.eventTimestamp)
+            .toBe(String(Date.parse('2026-10-21T12:30:00Z')));
+        expect(card.getAttribute('aria-label'))
+            .toBe(`CPI m/m, ${dayOf('2026-10-21T12:30:00Z', 'UTC')}, ${timeOf('2026-10-21T12:30:00Z', 'UTC')}`);
+        expect(card.querySelector<HTMLElement>('.add-to-calendar')!.dataset.eventKey).toBe(card.dataset.eventKey);
+    });
+
+    it('gives past, all-day and Pre-/Post-market events no countdown', () => {
+        render([
+            macro('All day', '2026-10-21T00:00:00Z', { hasTime: false }),
+            { ...macro('Earnings (ACME)', '2026-10-21T13:00:00Z'), type: 'corp', announcementPeriod: 'Pre-market' },
+        ]);
+        render([macro('Released', '2026-10-18T12:30:00Z')], { isPast: true, timeZone: 'UTC' });
+        const countdowns = [...document.querySelectorAll<HTMLElement>('.event-countdown')];
+        expect(countdowns.filter(el => el.dataset.eventTimestamp)).toHaveLength(0);
+    });
+
+    it('keeps unchanged cards and day groups across renders', () => {
+        const cpi = macro('CPI m/m', '2026-10-21T12:30:00Z', { forecast: '0.3%' });
+        const gdp = macro('GDP q/q', '2026-10-22T12:30:00Z');
+        render([cpi, gdp]);
+        const [cpiCard, gdpCard] = column.querySelectorAll<HTMLElement>('.event-card');
+        const firstDay = column.querySelector('.day-group')!;
+        firstDay.classList.add('collapsed');
+        const cpiContent = cpiCard.firstElementChild;
+
+        render([cpi, gdp]);
+        const after = column.querySelectorAll<HTMLElement>('.event-card');
+        expect(after[0]).toBe(cpiCard);
+        expect(after[1]).toBe(gdpCard);
+        // Identical props leave the card's contents alone.
+        expect(cpiCard.firstElementChild).toBe(cpiContent);
+        expect(column.querySelector('.day-group')).toBe(firstDay);
+        expect(firstDay.classList.contains('collapsed')).toBe(true);
+    });
+
+    it('collapses the days it is given, by date in the display time zone', () => {
+        const events = [macro('Tokyo CPI', '2026-10-20T23:30:00Z'), macro('UK GDP', '2026-10-22T06:00:00Z')];
+        render(events, { ...options, timeZone: 'Asia/Tokyo', collapsedDays: new Set(['2026-10-21']) });
+        const [tokyoDay, gdpDay] = column.querySelectorAll<HTMLElement>('.day-group');
+        expect(tokyoDay.dataset.date).toBe('2026-10-21');
+        expect(tokyoDay.classList.contains('collapsed')).toBe(true);
+        expect(tokyoDay.querySelector('.day-header')!.getAttribute('aria-expanded')).toBe('false');
+        expect(gdpDay.classList.contains('collapsed')).toBe(false);
+
+        render(events, { ...options, timeZone: 'Asia/Tokyo', collapsedDays: new Set() });
+        expect(tokyoDay.classList.contains('collapsed')).toBe(false);
+        expect(tokyoDay.querySelector('.day-header')!.getAttribute('aria-expanded')).toBe('true');
+    });
+
+    it('refills a changed card in place', () => {
+        const cpi = macro('CPI m/m', '2026-10-21T12:30:00Z', { forecast: '0.3%' });
+        render([cpi]);
+        const card = column.querySelector('.event-card');
+
+        render([{ ...cpi, forecast: '0.4%' }], { ...options, changesFor: () => ['forecast'] });
+        expect(column.querySelector('.event-card')).toBe(card);
+        expect(card!.classList.contains('changed')).toBe(true);
+        expect(card!.querySelector('.value-changed')!.textContent).toBe('0.4%');
+        expect(card!.querySelector('.change-badge')!.textContent).toBe('Updated: forecast');
+    });
+
+    it('adds, moves and removes cards and days to match the events', () => {
+        const cpi = macro('CPI m/m', '2026-10-21T12:30:00Z');
+        const gdp = macro('GDP q/q', '2026-10-21T14:00:00Z');
+        const pmi = macro('PMI', '2026-10-23T09:00:00Z');
+        render([cpi, gdp]);
+        const gdpCard = column.querySelectorAll('.event-card')[1];
+
+        // GDP moves ahead of CPI on the same day and keeps its element; PMI is new.
+        render([{ ...gdp, datetime: new Date('2026-10-21T08:00:00Z') }, cpi, pmi]);
+        expect(dayLabels(column)).toEqual([dayOf('2026-10-21T12:00:00Z', 'UTC'), dayOf('2026-10-23T12:00:00Z', 'UTC')]);
+        expect(cardNames(column)).toEqual(['GDP q/q', 'CPI m/m', 'PMI']);
+        expect(column.querySelectorAll('.event-card')[0]).toBe(gdpCard);
+
+        render([pmi]);
+        expect(cardNames(column)).toEqual(['PMI']);
+        expect(dayLabels(column)).toHaveLength(1);
+
+        render([]);
+        expect(column.children).toHaveLength(0);
+    });
+
+    it('clears anything that is not a day group', () => {
+        column.append(Object.assign(document.createElement('div'), { className: 'section-status' }));
+        render([macro('CPI m/m', '2026-10-21T12:30:00Z')]);
+        expect(column.querySelector('.section-status')).toBeNull();
+        expect(column.children).toHaveLength(1);
+    });
+});
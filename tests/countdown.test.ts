@@ -0,0 +1,81 @@
+// @vitest-environment happy-dom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { countdownMilestone, formatTimeDifference, refreshCountdowns } from '../countdown';
+import { buildEventCard } from '../cards';
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+
+describe('formatTimeDifference', () => {
+    it('counts down in days, hours and minutes, rounding down', () => {
+        expect(formatTimeDifference(2 * 24 * HOUR_MS + 3 * HOUR_MS + 59 * MINUTE_MS)).toBe('in 2d 3h');
+        expect(formatTimeDifference(24 * HOUR_MS)).toBe('in 1d 0h');
+        expect(formatTimeDifference(24 * HOUR_MS - 1)).toBe('in 23h 59m');
+        expect(formatTimeDifference(HOUR_MS)).toBe('in 1h 0m');
+        expect(formatTimeDifference(HOUR_MS - 1)).toBe('in 59m');
+        expect(formatTimeDifference(MINUTE_MS)).toBe('in 1m');
+    });
+
+    it('says "Upcoming" in the last minute and "Announced" from the moment it is due', () => {
+        expect(formatTimeDifference(MINUTE_MS - 1)).toBe('Upcoming');
+        expect(formatTimeDifference(1)).toBe('Upcoming');
+        expect(formatTimeDifference(0)).toBe('Announced');
+        expect(formatTimeDifference(-5 * MINUTE_MS)).toBe('Announced');
+    });
+});
+
+describe('countdownMilestone', () => {
+    it('reports the smallest mark the time left is within', () => {
+        expect(countdownMilestone(61 * MINUTE_MS)).toBeUndefined();
+        expect(countdownMilestone(60 * MINUTE_MS)).toBe(60);
+        expect(countdownMilestone(15 * MINUTE_MS + 1)).toBe(60);
+        expect(countdownMilestone(15 * MINUTE_MS)).toBe(15);
+        expect(countdownMilestone(30 * SECOND_MS)).toBe(1);
+        expect(countdownMilestone(0)).toBeUndefined();
+    });
+});
+
+describe('refreshCountdowns', () => {
+    const NOW = new Date('2026-10-19T14:00:00Z');
+    const event: FinancialEvent = {
+        name: 'CPI m/m', description: '', type: 'macro', hasTime: true, impact: 'High',
+        datetime: new Date(NOW.getTime() + HOUR_MS),
+    };
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(NOW);
+        document.body.replaceChildren(buildEventCard({
+            event, key: 'cpi', isPast: false, dayLabel: 'Monday', timeZone: 'UTC', changedFields: [],
+        }));
+    });
+    afterEach(() => vi.useRealTimers());
+
+    it('updates the countdowns as the clock runs', () => {
+        const countdown = document.querySelector('.event-countdown')!;
+        const ticks: number[] = [];
+        const refresh = () => refreshCountdowns(document, Date.now(), (card, diff) => {
+            expect(card?.dataset.eventKey).toBe('cpi');
+            ticks.push(diff);
+        });
+
+        refresh();
+        expect(countdown.textContent).toBe('in 1h 0m');
+        vi.advanceTimersByTime(45 * MINUTE_MS + 30 * SECOND_MS);
+        refresh();
+        expect(countdown.textContent).toBe('in 14m');
+        vi.advanceTimersByTime(14 * MINUTE_MS);
+        refresh();
+        expect(countdown.textContent).toBe('Upcoming');
+        vi.advanceTimersByTime(30 * SECOND_MS);
+        refresh();
+        expect(countdown.textContent).toBe('Announced');
+        expect(ticks).toEqual([HOUR_MS, 14 * MINUTE_MS + 30 * SECOND_MS, 30 * SECOND_MS, 0]);
+    });
+});
@@ -0,0 +1,51 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { buildDigest, digestEvents } from '../server/digest';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+const options = { now: NOW, timeZone: 'America/New_York', dashboardUrl: 'https://radar.example', unsubscribeUrl: 'https://proxy.example/u?token=a&b' };
+
+const events: FinancialEvent[] = [
+    { name: 'Later', description: '', type: 'macro', hasTime: true, impact: 'Low', datetime: new Date('2026-10-26T08:00:00Z') },
+    { name: 'Apple (AAPL)', description: '', type: 'corp', hasTime: true, announcementPeriod: 'Post-market', analystPrediction: 'EPS: $1.30', datetime: new Date('2026-10-21T21:00:00Z') },
+    { name: 'CPI <m/m>', description: '', type: 'macro', hasTime: true, impact: 'High', currency: 'USD', forecast: '0.3%', previous: '0.2%', datetime: new Date('2026-10-20T12:30:00Z') },
+    { name: 'Yesterday', description: '', type: 'macro', hasTime: true, impact: 'High', datetime: new Date('2026-10-18T12:30:00Z') },
+];
+
+describe('weekly digest', () => {
+    it('covers the seven days from now, in order', () => {
+        expect(digestEvents(events, NOW).map(e => e.name)).toEqual(['CPI <m/m>', 'Apple (AAPL)']);
+    });
+
+    it('writes a plain-text digest in the digest time zone', () => {
+        const { subject, text } = buildDigest(events, options);
+        expect(subject).toBe('Your week ahead (Oct 19 – Oct 26): 2 events, 1 high impact');
+        expect(text).toContain('TUESDAY, OCTOBER 20\n  08:30       CPI <m/m> (High impact, USD)\n              Forecast 0.3% · Previous 0.2%');
+        expect(text).toContain('  Post-market Apple (AAPL)\n              Expected EPS: $1.30');
+        expect(text).toContain('Unsubscribe: https://proxy.example/u?token=a&b');
+    });
+
+    it('lists an event without a time under its own date', () => {
+        const dateOnly: FinancialEvent = { name: 'Acme Corp (ACME)', description: '', type: 'corp', hasTime: false, datetime: new Date('2026-10-21T00:00:00Z') };
+        const { text } = buildDigest([...digestEvents(events, NOW), dateOnly], options);
+        expect(text.indexOf('TUESDAY, OCTOBER 20')).toBeLessThan(text.indexOf('WEDNESDAY, OCTOBER 21'));
+        expect(text.slice(text.indexOf('WEDNESDAY, OCTOBER 21'))).toContain('Acme Corp (ACME)');
+    });
+
+    it('escapes event text and links in the HTML digest', () => {
+        const { html } = buildDigest(events, options);
+        expect(html).toContain('<strong>CPI &#60;m/m&#62;</strong>');
+        expect(html).not.toContain('<m/m>');
+        expect(html).toContain('href="https://proxy.example/u?token=a&#38;b"');
+    });
+
+    it('says so when the week is empty', () => {
+        const { subject, text } = buildDigest([], options);
+        expect(subject).toBe('Your week ahead (Oct 19 – Oct 26): no scheduled events');
+        expect(text).toContain('No scheduled macro releases or earnings were found for the coming week.');
+    });
+});
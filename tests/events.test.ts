@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { eventIdentity, mergeEvents } from '../events';
+
+function macro(name: string, iso: string, fields: Partial<FinancialEvent> = {}): FinancialEvent {
+    return { name, description: '', type: 'macro', hasTime: true, impact: 'High', datetime: new Date(iso), ...fields };
+}
+
+describe('eventIdentity', () => {
+    it('tells same-named releases from different regions apart', () => {
+        const uk = macro('Interest Rate Decision', '2026-10-22T12:00:00Z', { country: 'GB' });
+        const japan = macro('Interest Rate Decision', '2026-10-22T03:00:00Z', { country: 'JP' });
+        expect(eventIdentity(uk)).not.toBe(eventIdentity(japan));
+        // A moved release is still the same event.
+        expect(eventIdentity({ ...uk, datetime: new Date('2026-10-22T11:00:00Z') })).toBe(eventIdentity(uk));
+    });
+
+    it('keys earnings by ticker whatever the company is called', () => {
+        const a: FinancialEvent = { name: 'Apple Inc. (AAPL)', description: '', type: 'corp', hasTime: false, datetime: new Date('2026-10-29T00:00:00Z') };
+        expect(eventIdentity({ ...a, name: 'Apple (aapl)' })).toBe(eventIdentity(a));
+    });
+});
+
+describe('mergeEvents', () => {
+    it('lets later lists win field by field without blanking fields they leave out', () => {
+        const before = macro('CPI m/m', '2026-10-21T12:30:00Z', { country: 'US', forecast: '0.3%', actual: '0.4%' });
+        const after = macro('CPI m/m', '2026-10-21T12:30:00Z', { country: 'US', forecast: '0.2%', actual: undefined });
+        const [merged] = mergeEvents([[before], [after]]);
+        expect(merged.forecast).toBe('0.2%');
+        expect(merged.actual).toBe('0.4%');
+    });
+
+    it('keeps releases from different regions apart', () => {
+        const uk = macro('Interest Rate Decision', '2026-10-22T12:00:00Z', { country: 'GB' });
+        const japan = macro('Interest Rate Decision', '2026-10-22T13:00:00Z', { country: 'JP' });
+        expect(mergeEvents([[uk, japan]])).toHaveLength(2);
+    });
+});
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, describe, expect, it } from 'vitest';
+import { buildPrompt, extractJsonArray, parseApiResponse } from '../server/gemini';
+import { clearRejectedRecords, getRejectedRecords } from '../providers/diagnostics';
+import { ProviderError } from '../providers/errors';
+import { recordedResponse } from './recorded';
+
+function parseRecorded(name: string) {
+    const { query, text, groundingMetadata } = recordedResponse(name);
+    return parseApiResponse(text, query, groundingMetadata);
+}
+
+afterEach(() => clearRejectedRecords());
+
+describe('parseApiResponse with recorded responses', () => {
+    it('parses upcoming macro events from a fenced answer', () => {
+        const events = parseRecorded('macro-upcoming');
+        expect(events.map(e => e.name)).toEqual(['CPI m/m', 'ECB Monetary Policy Statement', 'German Ifo Business Climate']);
+
+        const [cpi, ecb, ifo] = events;
+        expect(cpi).toMatchObject({ type: 'macro', impact: 'High', country: 'US', currency: 'USD', forecast: '0.3%', previous: '0.2%', hasTime: true });
+        expect(cpi.datetime.toISOString()).toBe('2026-10-21T12:30:00.000Z');
+        // "N/A" means an all-day event, kept at midnight UTC; impact is matched case-insensitively.
+        expect(ecb).toMatchObject({ impact: 'High', hasTime: false });
+        expect(ecb.datetime.toISOString()).toBe('2026-10-22T00:00:00.000Z');
+        expect(ifo.forecast).toBeUndefined();
+        expect(getRejectedRecords()).toHaveLength(0);
+    });
+
+    it('links grounding citations to the records they support', () => {
+        const [cpi, ecb, ifo] = parseRecorded('macro-upcoming');
+        expect(cpi.citations).toEqual([{ url: 'https://www.bls.gov/schedule/news_release/cpi.htm', title: 'bls.gov' }]);
+        expect(cpi.verification).toEqual({ verified: true });
+        // Only the name is supported, not the date. The segment lies after
+        // multi-byte characters, so this also checks the byte offset mapping.
+        expect(ecb.citations).toHaveLength(1);
+        expect(ecb.verification).toEqual({ verified: false, reason: 'The cited sources do not back up the date 2026-10-22' });
+        expect(ifo.citations).toEqual([]);
+        expect(ifo.verification?.verified).toBe(false);
+    });
+
+    it('parses past macro events out of surrounding prose and rejects impossible dates', () => {
+        const events = parseRecorded('macro-past');
+        expect(events.map(e => [e.name, e.actual])).toEqual([['Retail Sales m/m', '0.6%'], ['Final CPI y/y', '2.1%']]);
+        // Without grounding metadata nothing is verified.
+        expect(events.every(e => e.verification?.verified === false)).toBe(true);
+
+        const rejected = getRejectedRecords();
+        expect(rejected).toHaveLength(1);
+        expect(rejected[0]).toMatchObject({ provider: 'gemini', query: 'macro/past' });
+        expect(rejected[0].reasons).toEqual(['"date" must be YYYY-MM-DD, got "2026-02-30"']);
+    });
+
+    it('places Pre- and Post-market earnings around the exchange open and close', () => {
+        const events = parseRecorded('corp-upcoming');
+        expect(events.map(e => e.name)).toEqual(['Johnson & Johnson (JNJ)', 'Tesla, Inc. (TSLA)', 'IBM (IBM)']);
+
+        const [jnj, tsla, ibm] = events;
+        expect(jnj.announcementPeriod).toBe('Pre-market');
+        expect(jnj.datetime.toISOString()).toBe('2026-10-20T13:00:00.000Z'); // Half an hour before the 09:30 EDT open
+        expect(tsla.announcementPeriod).toBe('Post-market');
+        expect(tsla.datetime.toISOString()).toBe('2026-10-21T21:00:00.000Z'); // An hour after the 16:00 close
+        expect(ibm).toMatchObject({ hasTime: true, analystPrediction: 'EPS: $2.45', infoType: 'Q3 Earnings' });
+        expect(ibm.announcementPeriod).toBeUndefined();
+
+        expect(getRejectedRecords().map(r => r.reasons)).toEqual([
+            ['"time" must be HH:MM, "Pre-market", "Post-market" or "N/A", got "After close"'],
+        ]);
+    });
+
+    it('parses past earnings and rejects records of the other type', () => {
+        const events = parseRecorded('corp-past');
+        expect(events.map(e => [e.name, e.actual, e.analystPrediction])).toEqual([
+            ['JPMorgan Chase & Co. (JPM)', 'EPS: $4.85', 'EPS: $4.42'],
+            ['Netflix (NFLX)', 'EPS: $5.01', 'EPS: $5.10'],
+        ]);
+        expect(getRejectedRecords()[0].reasons).toEqual(['"type" is "macro" but "corp" was requested']);
+    });
+});
+
+describe('parseApiResponse with malformed responses', () => {
+    it('treats an answer without a JSON array as a transient failure', () => {
+        let error: unknown;
+        try {
+            parseRecorded('malformed-no-array');
+        } catch (e) {
+            error = e;
+        }
+        expect(error).toBeInstanceOf(ProviderError);
+        expect((error as ProviderError).transient).toBe(true);
+        expect((error as ProviderError).message).toBe('Could not parse macro/upcoming response: Response does not contain a JSON array');
+        // The whole response is kept for debugging.
+        expect(getRejectedRecords()[0].record).toBe(recordedResponse('malformed-no-array').text);
+    });
+
+    it('treats a truncated array as a transient failure', () => {
+        expect(() => parseRecorded('malformed-truncated')).toThrow(ProviderError);
+        expect(getRejectedRecords()).toHaveLength(1);
+    });
+
+    it('finds the array inside a wrapping object', () => {
+        expect(parseRecorded('malformed-wrapped').map(e => e.name)).toEqual(['CPI m/m']);
+    });
+
+    it('reports every problem with each rejected record', () => {
+        parseRecorded('malformed-records');
+        const reasons = getRejectedRecords().map(r => r.reasons);
+        expect(reasons).toEqual([
+            ['record is not an object'],
+            [
+                '"time" must be HH:MM, "Pre-market", "Post-market" or "N/A", got "8:30am"',
+                '"impact" must be one of High, Medium, Low, got "Severe"',
+            ],
+            ['"name" is required'],
+        ]);
+    });
+
+    it('drops a malformed region code but keeps the event', () => {
+        const [coreCpi, ...rest] = parseRecorded('malformed-records');
+        expect(rest).toEqual([]);
+        expect(coreCpi).toMatchObject({ name: 'Core CPI m/m', currency: 'USD', forecast: '0.3' });
+        expect(coreCpi.country).toBeUndefined();
+    });
+
+    it('returns no events for an empty answer', () => {
+        expect(parseApiResponse(undefined, { type: 'macro', window: 'upcoming' })).toEqual([]);
+        expect(parseApiResponse('', { type: 'corp', window: 'past' })).toEqual([]);
+    });
+});
+
+describe('extractJsonArray', () => {
+    it('rejects JSON that is not an array', () => {
+        expect(() => extractJsonArray('[1, 2')).toThrow('Response does not contain a JSON array');
+        expect(() => extractJsonArray('] then [')).toThrow('Response does not contain a JSON array');
+    });
+});
+
+describe('buildPrompt', () => {
+    it('asks for the fields of each of the four formats', () => {
+        expect(buildPrompt({ type: 'macro', window: 'upcoming' })).toContain('for the next 7 days');
+        expect(buildPrompt({ type: 'macro', window: 'past', days: 1 })).toContain('from the past day');
+        expect(buildPrompt({ type: 'macro', window: 'past' })).toContain('"actual" (actual value)');
+        expect(buildPrompt({ type: 'corp', window: 'upcoming' })).toContain('"analystPrediction"');
+        expect(buildPrompt({ type: 'corp', window: 'past', days: 14 })).toContain('from the past 14 days');
+    });
+});
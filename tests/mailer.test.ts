@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type AddressInfo, type Server } from 'node:net';
+import { createSmtpMailer } from '../server/mailer';
+import { createSmtpSink, type ReceivedMail } from '../server/smtp-sink';
+
+const FROM = 'Financial Events Radar <radar@example.com>';
+
+function listen(server: Server): Promise<number> {
+    return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port)));
+}
+
+/** The decoded body of the MIME part of type `type`. */
+function part(data: string, type: string): string {
+    const match = new RegExp(`Content-Type: ${type}; charset=utf-8\\r\\nContent-Transfer-Encoding: base64\\r\\n\\r\\n([A-Za-z0-9+/=\\r\\n]+)`).exec(data);
+    return Buffer.from(match![1].replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('SMTP mailer', () => {
+    let server: Server;
+    let received: ReceivedMail[];
+    let port: number;
+
+    beforeEach(async () => {
+        received = [];
+        server = createSmtpSink(mail => received.push(mail));
+        port = await listen(server);
+    });
+    afterEach(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it('hands a multipart message to the relay', async () => {
+        const mailer = createSmtpMailer({ host: '127.0.0.1', port, from: FROM });
+        await mailer.send({
+            to: 'Reader <reader@example.com>',
+            subject: 'Your week ahead — 3 events',
+            text: 'CPI m/m\n.\n..two dots',
+            html: '<p>CPI m/m</p>',
+            headers: { 'List-Unsubscribe': '<https://proxy.example/u?token=a>' },
+        });
+
+        expect(received).toHaveLength(1);
+        const [{ recipients, data }] = received;
+        expect(recipients).toEqual(['reader@example.com']);
+        expect(data).toContain('From: Financial Events Radar <radar@example.com>\r\nTo: Reader <reader@example.com>\r\n');
+        expect(data).toContain(`Subject: =?UTF-8?B?${Buffer.from('Your week ahead — 3 events').toString('base64')}?=`);
+        expect(data).toMatch(/^Message-ID: <[0-9a-f]+@example\.com>$/m);
+        expect(data).toContain('List-Unsubscribe: <https://proxy.example/u?token=a>');
+        expect(data).toContain('Content-Type: multipart/alternative');
+        // Lines starting with a dot survive the trip.
+        expect(part(data, 'text/plain')).toBe('CPI m/m\r\n.\r\n..two dots');
+        expect(part(data, 'text/html')).toBe('<p>CPI m/m</p>');
+    });
+
+    it('sends each message over its own connection', async () => {
+        const mailer = createSmtpMailer({ host: '127.0.0.1', port, from: FROM });
+        await Promise.all(['a@example.com', 'b@example.com'].map(to => mailer.send({ to, subject: 'Digest', text: 'Hello' })));
+        expect(received.map(mail => mail.recipients[0]).sort()).toEqual(['a@example.com', 'b@example.com']);
+        expect(part(received[0].data, 'text/plain')).toBe('Hello');
+    });
+
+    it('fails when the relay refuses the message', async () => {
+        const refusing = createServer(socket => {
+            socket.on('data', () => socket.write('550 No such user\r\n'));
+            socket.write('220 ready\r\n');
+        });
+        const refusingPort = await listen(refusing);
+        try {
+            const mailer = createSmtpMailer({ host: '127.0.0.1', port: refusingPort, from: FROM });
+            await expect(mailer.send({ to: 'reader@example.com', subject: 'Digest', text: 'Hello' }))
+                .rejects.toThrow('SMTP server refused the message: 550 No such user');
+        } finally {
+            await new Promise<void>(resolve => refusing.close(() => resolve()));
+        }
+    });
+});
@@ -0,0 +1,45 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { announcementTime, announcementWindow, EXCHANGES, tradingDay } from '../markets';
+
+const closedDays = (exchange: string, from: string, to: string) => {
+    const days: string[] = [];
+    for (let day = new Date(`${from}T00:00:00Z`); day <= new Date(`${to}T00:00:00Z`); day.setUTCDate(day.getUTCDate() + 1)) {
+        const key = day.toISOString().slice(0, 10);
+        if (day.getUTCDay() !== 0 && day.getUTCDay() !== 6 && tradingDay(key, EXCHANGES[exchange]).closed) days.push(key);
+    }
+    return days;
+};
+
+describe('exchange holiday calendars', () => {
+    it('knows the NYSE holidays, with holidays on a weekend moved to a weekday', () => {
+        expect(closedDays('US', '2026-01-01', '2026-12-31')).toEqual([
+            '2026-01-01', '2026-01-19', '2026-02-16', '2026-04-03', '2026-05-25', '2026-06-19',
+            '2026-07-03', '2026-09-07', '2026-11-26', '2026-12-25',
+        ]);
+        // Christmas 2027 is a Saturday.
+        expect(tradingDay('2027-12-24', EXCHANGES.US).closed).toBe(true);
+    });
+
+    it('moves UK bank holidays off weekends', () => {
+        expect(closedDays('LSE', '2026-12-20', '2027-01-05')).toEqual(['2026-12-25', '2026-12-28', '2027-01-01']);
+        expect(closedDays('LSE', '2027-03-20', '2027-04-05')).toEqual(['2027-03-26', '2027-03-29']);
+        expect(closedDays('TSX', '2026-05-01', '2026-05-31')).toEqual(['2026-05-18']);
+    });
+
+    it('shortens the session on early-close days', () => {
+        expect(tradingDay('2026-11-27', EXCHANGES.US)).toEqual({ open: '09:30', close: '13:00', closed: false, earlyClose: true });
+        expect(tradingDay('2026-12-24', EXCHANGES.LSE).close).toBe('12:30');
+        expect(tradingDay('2026-10-21', EXCHANGES.TSE)).toEqual({ open: '09:00', close: '15:30', closed: false, earlyClose: false });
+    });
+
+    it('places post-market releases after an early close', () => {
+        expect(announcementTime('2026-11-27', 'Post-market', EXCHANGES.US)).toEqual(new Date('2026-11-27T19:00:00Z'));
+        expect(announcementWindow('2026-11-27', 'Post-market', EXCHANGES.US))
+            .toEqual([new Date('2026-11-27T18:00:00Z'), new Date('2026-11-27T22:00:00Z')]);
+        expect(announcementTime('2026-11-25', 'Post-market', EXCHANGES.US)).toEqual(new Date('2026-11-25T22:00:00Z'));
+    });
+});
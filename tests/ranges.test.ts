@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { pastInRange, resolveRange, upcomingInRange } from '../ranges';
+
+const HOUR_MS = 60 * 60 * 1000;
+const NOW = new Date('2026-10-19T14:00:00Z');
+
+function macro(name: string, offsetMs: number): FinancialEvent {
+    return { name, description: '', type: 'macro', hasTime: true, impact: 'High', datetime: new Date(NOW.getTime() + offsetMs) };
+}
+
+const events = [
+    macro('in 8 days', 8 * 24 * HOUR_MS),
+    macro('in 3 hours', 3 * HOUR_MS),
+    macro('now', 0),
+    macro('a moment ago', -1),
+    macro('2 days ago', -2 * 24 * HOUR_MS),
+    macro('5 days ago', -5 * 24 * HOUR_MS),
+];
+const names = (list: FinancialEvent[]) => list.map(e => e.name);
+
+// The split depends on the clock alone, so it is frozen here and moved by hand.
+beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(NOW);
+});
+afterEach(() => vi.useRealTimers());
+
+describe('past / upcoming split', () => {
+    it('puts an event due exactly now in the upcoming list, soonest first', () => {
+        const resolved = resolveRange({ preset: '7d' }, 'UTC');
+        expect(names(upcomingInRange(events, resolved))).toEqual(['now', 'in 3 hours']);
+        // The past section defaults to the last 3 days.
+        expect(names(pastInRange(events, resolved))).toEqual(['a moment ago', '2 days ago']);
+    });
+
+    it('moves an event to the past once its time has passed', () => {
+        vi.advanceTimersByTime(3 * HOUR_MS + 1);
+        const resolved = resolveRange({ preset: '7d' }, 'UTC');
+        expect(names(upcomingInRange(events, resolved))).toEqual([]);
+        expect(names(pastInRange(events, resolved))).toEqual(['in 3 hours', 'now', 'a moment ago', '2 days ago']);
+    });
+
+    it('ends "today" at midnight in the display time zone', () => {
+        // 14:00 UTC is 23:00 in Tokyo, so its today has an hour left; in New York it is 10:00.
+        expect(names(upcomingInRange(events, resolveRange({ preset: 'today' }, 'Asia/Tokyo')))).toEqual(['now']);
+        expect(names(upcomingInRange(events, resolveRange({ preset: 'today' }, 'America/New_York')))).toEqual(['now', 'in 3 hours']);
+    });
+
+    it('shows the past part of a range that reaches back', () => {
+        const resolved = resolveRange({ preset: 'past', pastDays: 7 }, 'UTC');
+        expect(resolved.upcoming).toBeNull();
+        expect(names(pastInRange(events, resolved))).toEqual(['a moment ago', '2 days ago', '5 days ago']);
+    });
+});
@@ -0,0 +1,49 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { diffEvents } from '../events';
+import { reconcileEvents, type SourcedEvents } from '../reconcile';
+
+function macro(name: string, iso: string, fields: Partial<FinancialEvent> = {}): FinancialEvent {
+    return { name, description: '', type: 'macro', hasTime: true, impact: 'High', datetime: new Date(iso), ...fields };
+}
+
+const source = (name: string, events: FinancialEvent[], fetchedAt = 1): SourcedEvents => ({ source: name, window: 'upcoming', fetchedAt, events });
+
+describe('reconcileEvents', () => {
+    it('keeps same-named releases from different regions apart', () => {
+        const { events, merges } = reconcileEvents([
+            source('macro/upcoming', [macro('Interest Rate Decision', '2026-10-22T11:00:00Z', { country: 'GB' })]),
+            source('macro/past', [macro('Interest Rate Decision', '2026-10-22T03:00:00Z', { currency: 'JPY' })]),
+        ]);
+        expect(events.map(e => e.country ?? e.currency)).toEqual(['GB', 'JPY']);
+        expect(merges).toEqual([]);
+    });
+
+    it('merges a release when only one side names its region', () => {
+        const { events, merges } = reconcileEvents([
+            source('macro/upcoming', [macro('US CPI', '2026-10-21T12:30:00Z', { forecast: '0.3%' })], 2),
+            source('macro/past', [macro('CPI m/m', '2026-10-21T12:30:00Z', { country: 'US', actual: '0.4%' })]),
+        ]);
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ name: 'CPI m/m', country: 'US', forecast: '0.3%', actual: '0.4%' });
+        expect(merges[0].reasons).toContain('"CPI m/m" (macro/past): names match as "cpi" in US');
+    });
+});
+
+describe('reconcileEvents across refreshes', () => {
+    it('keeps figures a later refresh leaves out', () => {
+        const first = reconcileEvents([
+            source('macro/past', [macro('CPI m/m', '2026-10-21T12:30:00Z', { country: 'US', forecast: '0.3%', previous: '0.2%', actual: '0.4%' })]),
+        ]);
+        const second = reconcileEvents([
+            source('macro/upcoming', [macro('US CPI', '2026-10-21T12:30:00Z', { country: 'US' })], 2),
+        ], first.events);
+        expect(second.events).toHaveLength(1);
+        expect(second.events[0]).toMatchObject({ name: 'CPI m/m', forecast: '0.3%', previous: '0.2%', actual: '0.4%' });
+        expect(diffEvents(first.events, second.events)).toEqual([]);
+    });
+});
@@ -0,0 +1,22 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { readFileSync } from 'node:fs';
+import type { GroundingMetadata } from '@google/genai';
+import type { EventQuery } from '../providers';
+
+// --- RECORDED RESPONSES ---
+// Gemini answers in the shapes the API returns them (fixtures/gemini/),
+// replayed so the parsing tests never touch the network. Each file holds the
+// query, the raw response text and, for grounded answers, the grounding
+// metadata with its UTF-8 byte offsets.
+export interface RecordedResponse {
+  query: EventQuery;
+  text: string;
+  groundingMetadata?: GroundingMetadata;
+}
+
+export function recordedResponse(name: string): RecordedResponse {
+    return JSON.parse(readFileSync(new URL(`./fixtures/gemini/${name}.json`, import.meta.url), 'utf8'));
+}
@@ -0,0 +1,10 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { vi } from 'vitest';
+
+// Tests run on recorded data only; a request that slips through fails loudly.
+vi.stubGlobal('fetch', (input: unknown) => {
+    throw new Error(`Tests must not use the network (fetch ${String(input)})`);
+});
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createSubscriptionStore, normalizeEmail, type SubscriptionStore } from '../server/subscriptions';
+
+const NOW = new Date('2026-10-19T08:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const later = (days: number) => new Date(NOW.getTime() + days * DAY_MS);
+
+let dir: string;
+let file: string;
+let store: SubscriptionStore;
+
+beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'radar-subscriptions-'));
+    file = join(dir, 'data', 'subscriptions.json');
+    store = createSubscriptionStore(file);
+});
+afterEach(() => rm(dir, { recursive: true, force: true }));
+
+async function subscribe(email: string, now = NOW) {
+    const result = await store.subscribe(email, now);
+    if (result.ok === false) throw new Error(result.error);
+    return result.subscriber;
+}
+
+describe('subscription store', () => {
+    it('accepts plausible addresses only, matching them case-insensitively', async () => {
+        expect(normalizeEmail('  Reader@Example.COM ')).toBe('reader@example.com');
+        for (const bad of ['reader', 'reader@example', 'a b@example.com', 'reader@example.com\r\nBcc: x@example.com', '<a@example.com>', 42]) {
+            expect(normalizeEmail(bad)).toBeNull();
+        }
+        expect(await store.subscribe('not an address', NOW)).toEqual({ ok: false, error: 'Enter a valid email address' });
+
+        const first = await subscribe('Reader@Example.com');
+        const again = await subscribe('reader@example.com');
+        expect(again.email).toBe(first.email);
+        expect(JSON.parse(await readFile(file, 'utf8'))).toHaveLength(1);
+    });
+
+    it('confirms a pending address, and keeps it in the file', async () => {
+        const pending = await subscribe('reader@example.com');
+        expect(pending.status).toBe('pending');
+        expect(await store.findByConfirmToken(pending.confirmToken!, later(1))).toMatchObject({ email: 'reader@example.com' });
+        expect(await store.confirmed()).toEqual([]);
+
+        const confirmed = await store.confirm(pending.confirmToken!, later(1));
+        expect(confirmed).toMatchObject({ status: 'confirmed', confirmedAt: later(1).toISOString() });
+        expect(confirmed!.confirmToken).toBeUndefined();
+        // The link works once.
+        expect(await store.confirm(pending.confirmToken!, later(1))).toBeNull();
+
+        const reopened = createSubscriptionStore(file);
+        expect((await reopened.confirmed()).map(s => s.email)).toEqual(['reader@example.com']);
+    });
+
+    it('forgets a sign-up that was not confirmed within a week', async () => {
+        const pending = await subscribe('reader@example.com');
+        expect(await store.findByConfirmToken(pending.confirmToken!, later(8))).toBeNull();
+        expect(await store.confirm(pending.confirmToken!, later(8))).toBeNull();
+
+        // Signing up again starts afresh.
+        await subscribe('other@example.com', later(8));
+        const emails = JSON.parse(await readFile(file, 'utf8')).map((s: { email: string }) => s.email);
+        expect(emails).toEqual(['other@example.com']);
+    });
+
+    it('sends a fresh confirmation link on a repeat sign-up, and leaves confirmed addresses alone', async () => {
+        const first = await subscribe('reader@example.com');
+        const second = await subscribe('reader@example.com', later(2));
+        expect(second.confirmToken).not.toBe(first.confirmToken);
+        expect(second.unsubscribeToken).toBe(first.unsubscribeToken);
+        expect(second.createdAt).toBe(later(2).toISOString());
+        expect(await store.confirm(first.confirmToken!, later(2))).toBeNull();
+
+        const confirmed = await store.confirm(second.confirmToken!, later(2));
+        const third = await subscribe('reader@example.com', later(3));
+        expect(third).toEqual(confirmed);
+    });
+
+    it('deletes an address on unsubscribe', async () => {
+        const pending = await subscribe('reader@example.com');
+        await store.confirm(pending.confirmToken!, NOW);
+        expect(await store.findByUnsubscribeToken(pending.unsubscribeToken)).toMatchObject({ email: 'reader@example.com' });
+
+        expect(await store.unsubscribe(pending.unsubscribeToken)).toMatchObject({ email: 'reader@example.com' });
+        expect(await store.unsubscribe(pending.unsubscribeToken)).toBeNull();
+        expect(await store.unsubscribe('')).toBeNull();
+        expect(await store.findByUnsubscribeToken(pending.unsubscribeToken)).toBeNull();
+        expect(JSON.parse(await readFile(file, 'utf8'))).toEqual([]);
+    });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import type { FinancialEvent } from '../types';
+import { DEFAULT_FILTER_PREFERENCES, matchesFilterPreferences, parseTickerList, type FilterPreferences } from '../filters';
+import {
+    applySharedFilters, decodeViewState, encodeViewState, layoutQuery, preferencesToSave, viewStateUrl,
+    SHARED_WATCHLIST_ID, type ViewState,
+} from '../viewstate';
+
+const DEFAULT_VIEW: ViewState = {
+    range: { preset: '7d' },
+    view: 'list',
+    impacts: [],
+    regions: [],
+    watchlist: null,
+    pastExpanded: false,
+    collapsedDays: [],
+    selectedEvent: null,
+};
+
+const roundTrip = (state: ViewState) => decodeViewState(new URLSearchParams(encodeViewState(state).toString()));
+
+describe('view state in the query string', () => {
+    it('round-trips a full view', () => {
+        const state: ViewState = {
+            range: { preset: 'custom', from: '2026-10-20', to: '2026-10-30' },
+            view: 'month',
+            impacts: ['High', 'Medium'],
+            regions: ['EUR', 'USD'],
+            watchlist: { name: 'Chips & Co', tickers: ['NVDA', 'AMD'] },
+            pastExpanded: true,
+            collapsedDays: ['2026-10-21', '2026-10-22'],
+            selectedEvent: 'macro|2026-10-21|us cpi m/m',
+        };
+        expect(roundTrip(state)).toEqual(state);
+    });
+
+    it('always names the range, and leaves other defaults out', () => {
+        expect(encodeViewState(DEFAULT_VIEW).toString()).toBe('range=7d');
+        expect(roundTrip(DEFAULT_VIEW)).toEqual(DEFAULT_VIEW);
+        expect(encodeViewState({ ...DEFAULT_VIEW, range: { preset: 'past', pastDays: 10 } }).toString()).toBe('range=past&days=10');
+    });
+
+    it('gives the same link for the same view, whatever order filters were picked in', () => {
+        const a = encodeViewState({ ...DEFAULT_VIEW, impacts: ['Low', 'High'], regions: ['USD', 'EUR'] }).toString();
+        const b = encodeViewState({ ...DEFAULT_VIEW, impacts: ['High', 'Low'], regions: ['EUR', 'USD'] }).toString();
+        expect(a).toBe(b);
+    });
+
+    it('treats a query without a range as a plain visit', () => {
+        expect(decodeViewState(new URLSearchParams(''))).toBeNull();
+        expect(decodeViewState(new URLSearchParams('utm_source=mail&view=week'))).toBeNull();
+    });
+
+    it('falls back to defaults for malformed values', () => {
+        const state = decodeViewState(new URLSearchParams(
+            'range=toString&view=year&impact=Huge,High&days=abc&past=yes&collapsed=tomorrow,2026-10-21&tickers=,,'));
+        expect(state).toEqual({ ...DEFAULT_VIEW, impacts: ['High'], collapsedDays: ['2026-10-21'] });
+        expect(decodeViewState(new URLSearchParams('range=past&days=400'))!.range).toEqual({ preset: 'past', pastDays: 31 });
+    });
+
+    it('replaces view parameters in a URL and keeps the rest', () => {
+        const url = viewStateUrl({ ...DEFAULT_VIEW, view: 'week', impacts: ['High', 'Medium'] }, 'https://radar.example/?range=30d&region=USD&utm_source=mail#top');
+        expect(url).toBe('https://radar.example/?utm_source=mail&range=7d&view=week&impact=High,Medium#top');
+    });
+
+    it('leaves collapsed days and the selected event out of layouts', () => {
+        const query = layoutQuery({ ...DEFAULT_VIEW, pastExpanded: true, collapsedDays: ['2026-10-21'], selectedEvent: 'corp|2026-10-21|nvda' });
+        expect(query).toBe('range=7d&past=1');
+    });
+});
+
+describe('applySharedFilters', () => {
+    const tech = { id: 'tech', name: 'Tech', tickers: ['AAPL', 'MSFT'] };
+    const prefs: FilterPreferences = { ...DEFAULT_FILTER_PREFERENCES, watchlists: [tech], regions: ['JPY'] };
+
+    it('reuses a watchlist with the same tickers', () => {
+        const state = { ...DEFAULT_VIEW, regions: ['USD'], watchlist: { name: 'Theirs', tickers: ['MSFT', 'AAPL'] } };
+        expect(applySharedFilters(prefs, state)).toEqual({ ...prefs, activeWatchlistId: 'tech', regions: ['USD'] });
+    });
+
+    it('lists a watchlist the reader does not have as the shared one', () => {
+        const state = { ...DEFAULT_VIEW, watchlist: { name: 'Chips', tickers: ['NVDA'] } };
+        const result = applySharedFilters(prefs, state);
+        expect(result.watchlists).toEqual([tech, { id: SHARED_WATCHLIST_ID, name: 'Chips', tickers: ['NVDA'] }]);
+        expect(result.activeWatchlistId).toBe(SHARED_WATCHLIST_ID);
+        expect(result.regions).toEqual([]);
+        // A second link replaces it.
+        const next = applySharedFilters(result, { ...DEFAULT_VIEW, watchlist: { name: 'Banks', tickers: ['JPM'] } });
+        expect(next.watchlists).toEqual([tech, { id: SHARED_WATCHLIST_ID, name: 'Banks', tickers: ['JPM'] }]);
+    });
+});
+
+describe('preferencesToSave', () => {
+    const tech = { id: 'tech', name: 'Tech', tickers: ['AAPL', 'MSFT'] };
+    const saved: FilterPreferences = { ...DEFAULT_FILTER_PREFERENCES, watchlists: [tech], activeWatchlistId: 'tech', regions: ['JPY'] };
+    const linked = applySharedFilters(saved, { ...DEFAULT_VIEW, impacts: ['High'], regions: ['USD'], watchlist: { name: 'Chips', tickers: ['NVDA'] } });
+
+    it('keeps the reader\'s saved filters while a link is open, but saves their watchlist edits', () => {
+        expect(preferencesToSave(linked, saved)).toEqual(saved);
+        const edited = { ...linked, watchlists: [...linked.watchlists, { id: 'banks', name: 'Banks', tickers: ['JPM'] }] };
+        expect(preferencesToSave(edited, saved).watchlists.map(w => w.id)).toEqual(['tech', 'banks']);
+        // A deleted watchlist is no longer the active one.
+        expect(preferencesToSave({ ...linked, watchlists: [] }, saved)).toMatchObject({ watchlists: [], activeWatchlistId: null, regions: ['JPY'] });
+    });
+
+    it('never saves the shared watchlist', () => {
+        expect(preferencesToSave(linked)).toEqual({ ...linked, watchlists: [tech], activeWatchlistId: null });
+    });
+});
+
+describe('impact filter', () => {
+    const event = (impact?: FinancialEvent['impact']): FinancialEvent =>
+        ({ name: 'CPI', description: '', type: 'macro', hasTime: true, impact, datetime: new Date('2026-10-21T12:30:00Z') });
+
+    it('shows only the chosen levels, and hides unrated macro events while any is chosen', () => {
+        const prefs = { ...DEFAULT_FILTER_PREFERENCES, impacts: ['High' as const] };
+        expect(matchesFilterPreferences(event('High'), prefs)).toBe(true);
+        expect(matchesFilterPreferences(event('Low'), prefs)).toBe(false);
+        expect(matchesFilterPreferences(event(), prefs)).toBe(false);
+        expect(matchesFilterPreferences(event(), DEFAULT_FILTER_PREFERENCES)).toBe(true);
+    });
+});
+
+describe('watchlist filter', () => {
+    const earnings = (name: string): FinancialEvent =>
+        ({ name, description: '', type: 'corp', hasTime: false, datetime: new Date('2026-10-29T00:00:00Z') });
+    const prefs: FilterPreferences = {
+        ...DEFAULT_FILTER_PREFERENCES,
+        watchlists: [{ id: 'tech', name: 'Tech', tickers: parseTickerList('aapl, nasdaq:msft') }],
+        activeWatchlistId: 'tech',
+    };
+
+    it('matches tickers with or without an exchange prefix', () => {
+        expect(prefs.watchlists[0].tickers).toEqual(['AAPL', 'MSFT']);
+        expect(matchesFilterPreferences(earnings('Apple Inc. (NASDAQ:AAPL)'), prefs)).toBe(true);
+        expect(matchesFilterPreferences(earnings('Microsoft Corp. (MSFT)'), prefs)).toBe(true);
+        expect(matchesFilterPreferences(earnings('NVIDIA Corp. (NASDAQ:NVDA)'), prefs)).toBe(false);
+    });
+});
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- TIME ZONE HELPERS ---
+/** Offset of `timeZone` from UTC at `instant`, in minutes (e.g. -240 for EDT). */
+export function timeZoneOffsetMinutes(timeZone: string, instant: Date): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric', month: '2-digit', day: '2-digit',
+        hour: '2-digit', minute: '2-digit', second: '2-digit',
+    }).formatToParts(instant);
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+    return Math.round((asUtc - instant.getTime()) / 60000);
+}
+
+/**
+ * Converts a wall-clock time in `timeZone` to a UTC Date, honouring daylight
+ * saving time, e.g. ("2025-07-01", "09:30", "America/New_York") -> 13:30Z.
+ */
+export function zonedTimeToUtc(date: string, time: string, timeZone: string): Date {
+    const naive = new Date(`${date}T${time}:00Z`);
+    // Two passes settle the offset even when the first guess lands on the
+    // other side of a DST switch.
+    let offset = timeZoneOffsetMinutes(timeZone, naive);
+    offset = timeZoneOffsetMinutes(timeZone, new Date(naive.getTime() - offset * 60000));
+    return new Date(naive.getTime() - offset * 60000);
+}
+
+// --- CALENDAR DATES IN A ZONE ---
+/** The calendar date of `instant` in `timeZone`, as YYYY-MM-DD. */
+export function zonedDateKey(instant: Date, timeZone: string): string {
+    // en-CA formats dates as YYYY-MM-DD.
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(instant);
+}
+
+/** Moves a YYYY-MM-DD date by whole days. */
+export function shiftDateKey(key: string, days: number): string {
+    const date = new Date(`${key}T00:00:00Z`);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+}
+
+/** Day of the week of a YYYY-MM-DD date, 0 for Sunday. */
+export function dateKeyWeekday(key: string): number {
+    return new Date(`${key}T00:00:00Z`).getUTCDay();
+}
+
+/** The instant a YYYY-MM-DD date begins in `timeZone`. */
+export function zonedMidnight(key: string, timeZone: string): Date {
+    return zonedTimeToUtc(key, '00:00', timeZone);
+}
+
+// --- DISPLAY TIME ZONE ---
+// Times and day boundaries are shown in a zone the user picks, or the
+// browser's own zone until they do.
+const STORAGE_KEY = 'financial-events-radar:timezone';
+
+export function browserTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/** IANA zones to offer in the picker; a short list where the runtime cannot enumerate them. */
+export function availableTimeZones(): string[] {
+    if (typeof Intl.supportedValuesOf === 'function') {
+        return Intl.supportedValuesOf('timeZone');
+    }
+    return [
+        'UTC', 'America/New_York', 'America/Chicago', 'America/Los_Angeles', 'America/Toronto', 'America/Sao_Paulo',
+        'Europe/London', 'Europe/Paris', 'Europe/Berlin', 'Europe/Zurich', 'Asia/Dubai', 'Asia/Kolkata',
+        'Asia/Shanghai', 'Asia/Hong_Kong', 'Asia/Singapore', 'Asia/Tokyo', 'Asia/Seoul', 'Australia/Sydney',
+    ];
+}
+
+/** The saved display zone, or null to follow the browser. */
+export function loadDisplayTimeZone(): string | null {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        return saved && isValidTimeZone(saved) ? saved : null;
+    } catch {
+        return null;
+    }
+}
+
+export function saveDisplayTimeZone(timeZone: string | null) {
+    try {
+        if (timeZone) {
+            localStorage.setItem(STORAGE_KEY, timeZone);
+        } else {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch (e) {
+        console.warn('Could not save display time zone:', e);
+    }
+}
@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// --- TYPES ---
+export type EventType = 'macro' | 'corp';
+export type EventWindow = 'upcoming' | 'past';
+export type Impact = 'High' | 'Medium' | 'Low';
+export type Sentiment = 'good' | 'bad' | 'neutral';
+export type AnnouncementPeriod = 'Pre-market' | 'Post-market';
+
+// A web page a grounded answer drew on.
+export interface Citation {
+  url: string;
+  title?: string; // Page title, or the site's domain
+}
+
+// Whether the search results behind an answer back the event up. Only set
+// for events from a grounded source.
+export interface Verification {
+  verified: boolean;
+  reason?: string; // Why the event is unverified
+}
+
+export interface FinancialEvent {
+  datetime: Date;
+  name: string;
+  description: string;
+  type: EventType;
+  hasTime: boolean; // True if a specific time is available
+  source?: string;
+  citations?: Citation[];
+  verification?: Verification;
+  impact?: Impact;
+  announcementPeriod?: AnnouncementPeriod;
+  // Macro fields (Forex Factory style)
+  country?: string;  // ISO 3166-1 alpha-2 code, or "EU" for the euro area
+  currency?: string; // ISO 4217 code of the currency most affected
+  actual?: string;
+  forecast?: string;
+  previous?: string;
+  sentiment?: Sentiment; // For coloring past 'actual' values
+  // Corp fields
+  infoType?: string;
+  analystPrediction?: string;
+}
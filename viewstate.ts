@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Impact } from './types';
+import { IMPACT_LEVELS, parseTickerList, type FilterPreferences } from './filters';
+import { parseTimeRange, type CalendarView, type RangePreset, type TimeRange } from './ranges';
+
+// --- VIEW STATE ---
+// Everything needed to open the dashboard exactly as someone else sees it:
+// time range, view, filters, which sections are open and the event on show.
+// It lives in the page's query string, so a link carries it, and saved
+// layouts keep it under a name. Anything left out of a link takes its
+// default, not the reader's own setting, so both see the same events. A
+// link's view lasts for the visit; the reader's saved settings stay as they were.
+export type DashboardView = 'list' | CalendarView;
+
+// A watchlist travels by name and tickers, since its id only means something
+// in the browser that made it.
+export interface SharedWatchlist {
+  name: string;
+  tickers: string[];
+}
+
+export interface ViewState {
+  range: TimeRange;
+  view: DashboardView;
+  impacts: Impact[];
+  regions: string[];
+  watchlist: SharedWatchlist | null;
+  pastExpanded: boolean;
+  collapsedDays: string[];      // Upcoming days (YYYY-MM-DD) shown collapsed
+  selectedEvent: string | null; // Identity of the event open in the details panel
+}
+
+export interface SavedLayout {
+  id: string;
+  name: string;
+  query: string; // The view state as a query string (see layoutQuery)
+}
+
+const VIEWS: DashboardView[] = ['list', 'week', 'month'];
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/;
+const LAYOUTS_KEY = 'financial-events-radar:layouts';
+
+// The id of a shared watchlist the reader does not have, which is never saved.
+export const SHARED_WATCHLIST_ID = 'shared';
+
+// Query parameters; `range` is always written, so any shared link is recognised as one.
+const PARAMS = ['range', 'days', 'from', 'to', 'view', 'impact', 'region', 'watchlist', 'tickers', 'past', 'collapsed', 'event'];
+
+const list = (value: string | null) => (value ?? '').split(',').map(v => v.trim()).filter(Boolean);
+
+export function encodeViewState(state: ViewState): URLSearchParams {
+    const params = new URLSearchParams();
+    params.set('range', state.range.preset);
+    if (state.range.preset === 'past' && state.range.pastDays) params.set('days', String(state.range.pastDays));
+    if (state.range.preset === 'custom' && state.range.from && state.range.to) {
+        params.set('from', state.range.from);
+        params.set('to', state.range.to);
+    }
+    if (state.view !== 'list') params.set('view', state.view);
+    // Lists are written in a fixed order, so the same view always gives the same link.
+    if (state.impacts.length > 0) params.set('impact', IMPACT_LEVELS.filter(i => state.impacts.includes(i)).join(','));
+    if (state.regions.length > 0) params.set('region', [...state.regions].sort().join(','));
+    if (state.watchlist) {
+        params.set('watchlist', state.watchlist.name);
+        params.set('tickers', state.watchlist.tickers.join(','));
+    }
+    if (state.pastExpanded) params.set('past', '1');
+    if (state.collapsedDays.length > 0) params.set('collapsed', state.collapsedDays.join(','));
+    if (state.selectedEvent) params.set('event', state.selectedEvent);
+    return params;
+}
+
+/**
+ * The view state a query string describes, or null when it carries none (a
+ * plain visit, which keeps the reader's own settings). Unknown or malformed
+ * values fall back to their defaults.
+ */
+export function decodeViewState(params: URLSearchParams): ViewState | null {
+    if (!params.has('range')) return null;
+    const range = parseTimeRange({
+        preset: params.get('range') as RangePreset,
+        pastDays: params.has('days') ? Number(params.get('days')) : undefined,
+        from: params.get('from') ?? undefined,
+        to: params.get('to') ?? undefined,
+    });
+    const view = params.get('view') as DashboardView;
+    const tickers = parseTickerList(params.get('tickers') ?? '');
+    return {
+        range,
+        view: VIEWS.includes(view) ? view : 'list',
+        impacts: IMPACT_LEVELS.filter(impact => list(params.get('impact')).includes(impact)),
+        regions: [...new Set(list(params.get('region')))],
+        watchlist: tickers.length > 0 ? { name: params.get('watchlist')?.trim() || 'Shared watchlist', tickers } : null,
+        pastExpanded: params.get('past') === '1',
+        collapsedDays: list(params.get('collapsed')).filter(day => DATE_KEY.test(day)),
+        selectedEvent: params.get('event') || null,
+    };
+}
+
+/**
+ * `href` with its query string describing `state`. Parameters that are not
+ * part of the view state are kept.
+ */
+export function viewStateUrl(state: ViewState, href: string): string {
+    const url = new URL(href);
+    for (const name of PARAMS) url.searchParams.delete(name);
+    for (const [name, value] of encodeViewState(state)) url.searchParams.append(name, value);
+    // Commas need no escaping in a query string, and lists read better without it.
+    url.search = url.searchParams.toString().replace(/%2C/gi, ',');
+    return url.toString();
+}
+
+/**
+ * The filter preferences for a shared view. A watchlist with the same tickers
+ * is reused; otherwise the shared one is listed under SHARED_WATCHLIST_ID,
+ * in place of any shared before it.
+ */
+export function applySharedFilters(prefs: FilterPreferences, state: ViewState): FilterPreferences {
+    let watchlists = prefs.watchlists.filter(w => w.id !== SHARED_WATCHLIST_ID);
+    let activeWatchlistId: string | null = null;
+    if (state.watchlist) {
+        const wanted = [...state.watchlist.tickers].sort().join(',');
+        const match = watchlists.find(w => [...w.tickers].sort().join(',') === wanted);
+        if (match) {
+            activeWatchlistId = match.id;
+        } else {
+            activeWatchlistId = SHARED_WATCHLIST_ID;
+            watchlists = [...watchlists, { id: activeWatchlistId, ...state.watchlist }];
+        }
+    }
+    return { ...prefs, watchlists, activeWatchlistId, regions: state.regions, impacts: state.impacts };
+}
+
+/**
+ * The filter preferences to save for `prefs`, leaving out a shared
+ * watchlist. While a link's view is open, pass the reader's saved
+ * preferences as `saved`: only their watchlist edits are kept, and their
+ * filters stay as they were.
+ */
+export function preferencesToSave(prefs: FilterPreferences, saved?: FilterPreferences): FilterPreferences {
+    const watchlists = prefs.watchlists.filter(w => w.id !== SHARED_WATCHLIST_ID);
+    const own = saved ?? prefs;
+    const activeWatchlistId = watchlists.some(w => w.id === own.activeWatchlistId) ? own.activeWatchlistId : null;
+    return { ...own, watchlists, activeWatchlistId };
+}
+
+// --- SAVED LAYOUTS ---
+// Named view states, kept per browser so each person has their own set.
+export function loadLayouts(): SavedLayout[] {
+    try {
+        const raw = localStorage.getItem(LAYOUTS_KEY);
+        const parsed = raw ? JSON.parse(raw) : [];
+        return Array.isArray(parsed)
+            ? parsed.filter(l => l && typeof l.id === 'string' && typeof l.name === 'string' && typeof l.query === 'string')
+            : [];
+    } catch (e) {
+        console.warn('Ignoring unreadable saved layouts:', e);
+        return [];
+    }
+}
+
+export function saveLayouts(layouts: SavedLayout[]) {
+    try {
+        localStorage.setItem(LAYOUTS_KEY, JSON.stringify(layouts));
+    } catch (e) {
+        console.warn('Could not save layouts:', e);
+    }
+}
+
+/**
+ * The query string a layout stores for `state`. Collapsed days and the
+ * selected event belong to a moment rather than a layout, so they are left out.
+ */
+export function layoutQuery(state: ViewState): string {
+    return encodeViewState({ ...state, collapsedDays: [], selectedEvent: null }).toString();
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
@@ -5,8 +6,33 @@ export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.EVENT_PROVIDER': JSON.stringify(env.EVENT_PROVIDER ?? ''),
+        'process.env.EVENT_FIXTURE_URL': JSON.stringify(env.EVENT_FIXTURE_URL ?? ''),
+        'process.env.EVENT_API_URL': JSON.stringify(env.EVENT_API_URL ?? ''),
+        'process.env.REFRESH_INTERVAL_MINUTES': JSON.stringify(env.REFRESH_INTERVAL_MINUTES ?? '')
+      },
+      // The Gemini key stays with the proxy server; the client only knows its URL.
+      server: {
+        proxy: {
+          '/api': {
+            target: env.PROXY_TARGET || 'http://localhost:8787',
+            rewrite: (p) => p.replace(/^\/api/, ''),
+          },
+        },
+      },
+      // The archive is a page of its own next to the dashboard.
+      build: {
+        rollupOptions: {
+          input: {
+            main: path.resolve(__dirname, 'index.html'),
+            archive: path.resolve(__dirname, 'archive.html'),
+          },
+        },
+      },
+      // Tests replay recorded responses (tests/fixtures/) and never reach the network.
+      test: {
+        include: ['tests/**/*.test.ts'],
+        setupFiles: ['tests/setup.ts'],
       },
       resolve: {
         alias: {